@@ -1,5 +1,7 @@
-import { FormValidator } from '../validation';
+import { ErrorBag, FormValidator, RuleExecuted } from '../validation';
+import { ObjectSchema, Schema } from '../schema';
 import { Rule } from './rule';
+import { DeepPartial } from './infer';
 export type InputCallback<P> = (param: P) => void;
 
 /**
@@ -20,8 +22,12 @@ export interface IInputObject {
 export type RuleType = {
   name: string;
   message?: string;
+  /**
+   * The message is the message of the rule, read again in the current language at validation
+   */
+  defaultMessage?: boolean;
   params?: RuleParam;
-  validate?: RuleCallBack;
+  validate?: AnyRuleCallBack;
 };
 
 export type InputType =
@@ -37,6 +43,27 @@ export type ValidationState = {
   alias?: Rule;
   type?: InputType;
   message?: string[];
+  /**
+   * The errors of the items or the keys of the value, keyed by their path from the value,
+   * e.g. `1` for an item of an array, or `address.city` for a key of an object
+   */
+  items?: Record<string, ItemError>;
+};
+
+/**
+ * The error of an item or a key of a value, validated by a rule run on its parent
+ */
+export type ItemError = {
+  rule: Rule | string;
+  params?: RuleParam;
+  /**
+   * The message, the message of the rule when it is not given
+   */
+  message?: string;
+  /**
+   * The rejected value
+   */
+  value?: unknown;
 };
 export interface InputInterface {
   getMessageAttributeName(): string;
@@ -45,7 +72,7 @@ export interface InputInterface {
     rule: string;
     message?: string | null;
     param?: RuleParam;
-    validate?: RuleCallBack;
+    validate?: AnyRuleCallBack;
     local?: string;
   }): this;
 
@@ -72,13 +99,103 @@ export interface InputChangeEvent {
  * Rule callback
  */
 export interface RuleCallBack {
-  (input: unknown, param?: RuleParam, type?: InputType): ValidationState;
+  (
+    input: unknown,
+    param?: RuleParam,
+    type?: InputType,
+    context?: RuleContext,
+  ): ValidationState;
+}
+
+/**
+ * Validation context given to the rules, to let them read the other values of the form
+ */
+export type RuleContext = {
+  /**
+   * The whole data being validated
+   */
+  data: Record<string, unknown>;
+  /**
+   * The path of the field being validated, e.g. `address.city`
+   */
+  path: string;
+  /**
+   * Get the name used in the messages for the field at the given path
+   */
+  attribute?: (path: string) => string;
+  /**
+   * Check if a path names an input of the form, see FieldReference
+   */
+  hasField?: (path: string) => boolean;
+  /**
+   * The form element of the field, found with the input selector, when there is a DOM
+   */
+  element?: HTMLElement | null;
+  /**
+   * The format of the dates of the form, e.g. `DD/MM/YYYY`, see FormConfig.dateFormat
+   */
+  dateFormat?: string;
+  /**
+   * The timezone of the dates of the form, e.g. `Europe/Paris`, see FormConfig.timezone
+   */
+  timezone?: string;
+};
+
+/**
+ * Asynchronous rule callback, for checks that need to wait for a result (server lookups, etc.)
+ */
+export interface AsyncRuleCallBack {
+  (
+    input: unknown,
+    param?: RuleParam,
+    type?: InputType,
+    context?: RuleContext,
+  ): Promise<ValidationState>;
 }
 
+/**
+ * A rule callback that can either be synchronous or asynchronous
+ */
+export type AnyRuleCallBack = RuleCallBack | AsyncRuleCallBack;
+
+/**
+ * Details given to the hooks run around a rule
+ */
+export interface RuleHookEvent {
+  /**
+   * The name of the rule
+   */
+  rule: string;
+  /**
+   * The value given to the rule, a before hook can replace it
+   */
+  value: unknown;
+  /**
+   * The rule parameters
+   */
+  params: RuleParam;
+  /**
+   * The result of the rule, only available in the after hooks
+   */
+  executed?: RuleExecuted;
+  /**
+   * Skip the rule, only available in the before hooks
+   */
+  skip(): void;
+}
+
+/**
+ * Callback run before or after a rule of an input
+ */
+export type RuleHookCallback = (
+  event: RuleHookEvent,
+  input: InputInterface,
+) => void;
+
 export type RulesBag = {
   [ruleName in Rule]: RuleCallBack;
 } & {
-  [key: string]: RuleCallBack;
+  [key: string]: AnyRuleCallBack;
 };
 
 export type RulesMessages = {
@@ -136,7 +253,7 @@ export type InputParms = {
   /**
    * An array of rules that will be used to validate the input element.
    */
-  rules?: string | string[];
+  rules?: RuleNamed;
   /**
    * An object that maps rule names to error messages.
    */
@@ -165,10 +282,73 @@ export type InputParms = {
    * Indicates input type
    */
   type?: string;
+
+  /**
+   * Wait until the value is unchanged for this delay, in milliseconds, before validating
+   */
+  debounce?: number;
+
+  /**
+   * Validate at most once per this period, in milliseconds
+   */
+  throttle?: number;
+
+  /**
+   * The events validating the input. The input is always validated on submit.
+   */
+  trigger?: ValidationTrigger | ValidationTrigger[];
+
+  /**
+   * The rules of each key of an object or json field, validated after the rules of the field
+   */
+  shape?: InputShape;
+
+  /**
+   * What to do with the keys missing from the shape: keep them (`allow`, the default), remove
+   * them from the validated value (`strip`), or fail (`strict`)
+   */
+  unknownKeys?: 'allow' | 'strip' | 'strict';
 };
 
-type InputParmsOrRules = InputParms | string | string[];
-export type MakeInput = InputParmsOrRules[] | Record<string, InputParmsOrRules>;
+/**
+ * The rules of the keys of an object, a key can have its own shape
+ * @example
+ * ```typescript
+ * {
+ *   street: 'required',
+ *   geo: { rules: 'required|object', shape: { lat: 'number', lng: 'number' } },
+ * }
+ * ```
+ */
+export type InputShape = Record<
+  string,
+  | RuleNamed
+  | Pick<
+      InputParms,
+      | 'rules'
+      | 'messages'
+      | 'attribute'
+      | 'failsOnfirst'
+      | 'type'
+      | 'shape'
+      | 'unknownKeys'
+    >
+>;
+
+/**
+ * An event validating an input:
+ * - `onChange`: when the value is changed
+ * - `onBlur`: when the element loses the focus
+ * - `onSubmit`: only when the form is submitted
+ * - `lazy`: only on submit until the form is submitted once, then on change and blur
+ */
+export type ValidationTrigger = 'onChange' | 'onBlur' | 'onSubmit' | 'lazy';
+
+type InputParmsOrRules = InputParms | string | string[] | Schema;
+export type MakeInput =
+  | InputParmsOrRules[]
+  | Record<string, InputParmsOrRules>
+  | ObjectSchema;
 
 /**
  * Callback function for handling events.
@@ -188,6 +368,31 @@ export type FormConfig = {
     lang?: string;
   };
   name?: string;
+  /**
+   * The debounce of the inputs without their own
+   */
+  debounce?: number;
+  /**
+   * The throttle of the inputs without their own
+   */
+  throttle?: number;
+  /**
+   * The trigger of the inputs without their own
+   */
+  trigger?: ValidationTrigger | ValidationTrigger[];
+  /**
+   * Only surface the errors of the touched inputs, until the form is submitted
+   */
+  touchedOnly?: boolean;
+  /**
+   * The default format of the dates, e.g. `DD/MM/YYYY`, read strictly by the date rules
+   */
+  dateFormat?: string;
+  /**
+   * The IANA timezone of the dates without offset and of the relative dates, e.g. `today`.
+   * The timezone of the system by default.
+   */
+  timezone?: string;
 };
 
 export type Hooks =
@@ -199,12 +404,148 @@ export type Hooks =
   | 'input.updated'
   | 'input.validated';
 
-export type GroupHooks = 'form.fails' | 'form.passes' | 'form.validated';
+export type GroupHooks =
+  | 'form.fails'
+  | 'form.passes'
+  | 'form.validated'
+  | 'form.reset';
 
 export type FormHandler = (tr: FormValidator) => unknown;
 
+/**
+ * Options of the binding of a form validator to a form element
+ */
+export type FormBindingOptions<T = unknown, D = DeepPartial<T>> = {
+  /**
+   * Class of the invalid elements, `is-invalid` by default
+   */
+  invalidClass?: string;
+  /**
+   * Class of the valid elements, `is-valid` by default
+   */
+  validClass?: string;
+  /**
+   * The messages written in the feedback elements, the first one by default
+   */
+  display?: WayDisplayError;
+  /**
+   * Called when the form is submitted and valid, the native submission is then prevented
+   */
+  onSubmit?: (form: FormValidator<T, D>, event: Event) => unknown;
+  /**
+   * Set the first message as the custom validity of the elements, for the `:invalid` styling
+   * and reportValidity(). The validity is reported when an invalid form is submitted.
+   */
+  nativeValidity?: boolean;
+};
+
+/**
+ * Options of the scan of the data-tr-* attributes of a form
+ */
+export type ScanOptions = {
+  /**
+   * Map the HTML constraints (required, minlength, maxlength, pattern, min, max and the email,
+   * url, number and date types) to the equivalent rules
+   */
+  native?: boolean;
+};
+
+/**
+ * An error message of an input
+ */
+export type ErrorItem = {
+  path: string;
+  rule: string;
+  message: string;
+  params?: RuleParam;
+  /**
+   * The rejected value
+   */
+  value?: unknown;
+};
+
+/**
+ * Options of the error serializers
+ */
+export type ErrorSerializerOptions = {
+  /**
+   * Omit the rejected values: all of them with true, or those of the given paths, wildcards allowed
+   */
+  redact?: boolean | string[];
+  /**
+   * The HTTP status code
+   */
+  status?: number;
+  title?: string;
+  /**
+   * Problem Details type URI
+   */
+  type?: string;
+  detail?: string;
+  instance?: string;
+  /**
+   * The JSON pointer of the form data in a JSON:API document
+   */
+  pointerPrefix?: string;
+};
+
+/**
+ * An error of the `errors` extension member of a Problem Details object
+ */
+export type ProblemDetailsError = {
+  pointer: string;
+  detail: string;
+  path: string;
+  rule: string;
+  params?: RuleParam;
+  value?: unknown;
+};
+
+/**
+ * RFC 9457 Problem Details object
+ */
+export type ProblemDetails = {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  errors: ProblemDetailsError[];
+};
+
+/**
+ * JSON:API error object
+ */
+export type JsonApiError = {
+  status: string;
+  code: string;
+  title?: string;
+  detail: string;
+  source: { pointer: string };
+  meta: {
+    path: string;
+    rule: string;
+    params?: RuleParam;
+    value?: unknown;
+  };
+};
+
+export type JsonApiErrorDocument = { errors: JsonApiError[] };
+
+/**
+ * Result of FormValidator.safeParse(), the data only holds the inputs that passed
+ */
+export type SafeParseResult<T> =
+  | { success: true; data: T }
+  | {
+      success: false;
+      data: DeepPartial<T>;
+      errors: ErrorBag;
+    };
+
 export * from './rule';
+export * from './infer';
 
-export type RuleNamed = string | string[];
+export type RuleNamed = string | (string | RuleType)[];
 export type RuleOptions = Rule | Rule[] | RuleCallBack | RuleCallBack[];
 export type RuleMessage = string | string[] | Record<string, string> | null;
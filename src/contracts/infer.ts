@@ -0,0 +1,129 @@
+import { Infer, ObjectSchema, Schema } from '../schema';
+
+/**
+ * The type given by the rules checking the type of the value
+ */
+export type RuleOutputs = {
+  string: string;
+  email: string;
+  url: string;
+  password: string;
+  time: string;
+  phone: string;
+  json: string;
+  number: number;
+  numeric: number;
+  integer: number;
+  int: number;
+  boolean: boolean;
+  date: string;
+  dateFormat: string;
+  file: File | File[];
+  array: unknown[];
+  object: Record<string, unknown>;
+};
+
+type Trim<S extends string> = S extends ` ${infer R}`
+  ? Trim<R>
+  : S extends `${infer R} `
+    ? Trim<R>
+    : S;
+
+type RuleName<S extends string> = S extends `${infer N}:${string}`
+  ? Trim<N>
+  : Trim<S>;
+
+/**
+ * The rule names of a pipe-string, `'required|min:3'` gives `'required' | 'min'`
+ */
+export type RuleNames<S extends string> = S extends `${infer H}|${infer R}`
+  ? RuleName<H> | RuleNames<R>
+  : RuleName<S>;
+
+type TypeOfRules<N> = [Extract<N, keyof RuleOutputs>] extends [never]
+  ? unknown
+  : RuleOutputs[Extract<N, keyof RuleOutputs>];
+
+/**
+ * The type of the value validated by some rule names
+ */
+export type InferRules<N> =
+  | TypeOfRules<N>
+  | ('nullable' extends N ? null : never);
+
+type DefinitionRuleNames<D> = D extends string
+  ? RuleNames<D>
+  : D extends { name: infer N extends string }
+    ? RuleName<N>
+    : never;
+
+/**
+ * The type of the value validated by an input definition: a pipe-string, an array of rules,
+ * the input parameters or a schema
+ */
+export type InferDefinition<D> = D extends Schema
+  ? Infer<D>
+  : D extends string
+    ? InferRules<RuleNames<D>>
+    : D extends readonly (infer E)[]
+      ? InferRules<DefinitionRuleNames<E>>
+      : D extends { rules: infer R }
+        ? InferDefinition<R>
+        : unknown;
+
+type PathHead<K> = K extends `${infer H}.${string}` ? H : K;
+
+type PathChildren<F, H extends string> = {
+  [K in keyof F as K extends `${H}.${infer R}` ? R : never]: F[K];
+};
+
+type NestChildren<C> = Nest<C> extends { '*': infer E } ? E[] : Nest<C>;
+
+type NestValue<F, H extends string> = [keyof PathChildren<F, H>] extends [never]
+  ? H extends keyof F
+    ? F[H]
+    : unknown
+  :
+      | NestChildren<PathChildren<F, H>>
+      | (H extends keyof F ? (null extends F[H] ? null : never) : never);
+
+/**
+ * Build a nested type from a type keyed by dotted paths, the `*` segments give arrays.
+ * The data can hold other keys, like the fields referenced by the rules.
+ */
+export type Nest<F> = {
+  [H in PathHead<keyof F & string>]: NestValue<F, H>;
+} & { [key: string]: unknown };
+
+/**
+ * The type of the data validated by the inputs given to a form
+ * @example
+ * ```typescript
+ * InferForm<{ age: 'required|integer'; 'items.*': 'nullable|string' }>;
+ * // { age: number; items: (string | null)[] }
+ * ```
+ */
+export type InferForm<I> = I extends ObjectSchema
+  ? Infer<I>
+  : I extends readonly unknown[]
+    ? Record<string, unknown>
+    : Nest<{ [K in keyof I & string]: InferDefinition<I[K]> }>;
+
+/**
+ * The raw data of a form, where any validated value can be missing
+ */
+export type DeepPartial<T> = T extends object
+  ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : T;
+
+/**
+ * The raw data type of a form, any value is accepted when the type is inferred from the inputs
+ */
+export type FormInput<T> = [T] extends [never]
+  ? Record<string, unknown>
+  : DeepPartial<T>;
+
+/**
+ * The form data type, given explicitly or inferred from the inputs
+ */
+export type FormOutput<T, I> = [T] extends [never] ? InferForm<I> : T;
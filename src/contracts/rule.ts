@@ -1,5 +1,9 @@
 export type Rule =
   | 'required'
+  | 'requiredIf'
+  | 'requiredUnless'
+  | 'requiredWith'
+  | 'requiredWhen'
   | 'email'
   | 'maxlength'
   | 'minlength'
@@ -27,9 +31,11 @@ export type Rule =
   | 'startWithLower'
   | 'password'
   | 'date'
+  | 'dateFormat'
   | 'before'
   | 'after'
   | 'phone'
+  | 'phoneType'
   | 'url'
   | 'time'
   | 'startWithString'
@@ -58,4 +64,11 @@ export type Rule =
   | 'same'
   | 'object'
   | 'json'
-  | 'array';
+  | 'array'
+  | 'minItems'
+  | 'maxItems'
+  | 'itemsBetween'
+  | 'distinct'
+  | 'includesItem'
+  | 'arrayOf'
+  | 'validity';
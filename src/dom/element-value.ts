@@ -0,0 +1,99 @@
+export type FormElement =
+  | HTMLInputElement
+  | HTMLSelectElement
+  | HTMLTextAreaElement;
+
+/**
+ * Check if an element holds a form value
+ */
+export function isFormElement(element: unknown): element is FormElement {
+  return (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLSelectElement ||
+    element instanceof HTMLTextAreaElement
+  );
+}
+
+/**
+ * Read the value of the elements sharing a name:
+ * - a group of checkboxes gives the checked values, a single checkbox gives a boolean,
+ *   or its value attribute when it has one
+ * - a group of radios gives the checked value, or null
+ * - a multiple select gives the selected values
+ * - a file input gives a File, or the File list when multiple
+ */
+export function elementValue(elements: FormElement[]): unknown {
+  const [element] = elements;
+  if (!element) {
+    return undefined;
+  }
+  if (element instanceof HTMLInputElement) {
+    if (element.type === 'checkbox') {
+      return checkboxValue(elements as HTMLInputElement[]);
+    }
+    if (element.type === 'radio') {
+      return (
+        (elements as HTMLInputElement[]).find((radio) => radio.checked)
+          ?.value ?? null
+      );
+    }
+    if (element.type === 'file') {
+      const files = Array.from(element.files ?? []);
+      return element.multiple ? files : files[0] ?? null;
+    }
+  }
+  if (element instanceof HTMLSelectElement && element.multiple) {
+    return Array.from(element.selectedOptions).map((option) => option.value);
+  }
+  return element.value;
+}
+
+function checkboxValue(checkboxes: HTMLInputElement[]): unknown {
+  if (checkboxes.length > 1) {
+    return checkboxes
+      .filter((checkbox) => checkbox.checked)
+      .map((checkbox) => checkbox.value);
+  }
+  const [checkbox] = checkboxes;
+  if (!checkbox.hasAttribute('value')) {
+    return checkbox.checked;
+  }
+  return checkbox.checked ? checkbox.value : null;
+}
+
+/**
+ * Write a value to the elements sharing a name, the reverse of elementValue(). A file input
+ * can only be emptied.
+ */
+export function writeElementValue(elements: FormElement[], value: unknown) {
+  const values = (Array.isArray(value) ? value : [value]).map(String);
+  elements.forEach((element) => {
+    if (element instanceof HTMLInputElement) {
+      if (element.type === 'checkbox') {
+        element.checked =
+          value === true ||
+          (elements.length > 1 || element.hasAttribute('value')
+            ? values.includes(element.value)
+            : false);
+        return;
+      }
+      if (element.type === 'radio') {
+        element.checked = values.includes(element.value);
+        return;
+      }
+      if (element.type === 'file') {
+        if (!value || (Array.isArray(value) && !value.length)) {
+          element.value = '';
+        }
+        return;
+      }
+    }
+    if (element instanceof HTMLSelectElement && element.multiple) {
+      Array.from(element.options).forEach((option) => {
+        option.selected = values.includes(option.value);
+      });
+      return;
+    }
+    element.value = value === null || value === undefined ? '' : String(value);
+  });
+}
@@ -0,0 +1,298 @@
+import {
+  CssSelector,
+  DeepPartial,
+  FormBindingOptions,
+  WayDisplayError,
+} from '../contracts';
+import { data_get, getHTMLElementBySelector } from '../utils';
+import type { FormValidator } from '../validation';
+import {
+  elementValue,
+  FormElement,
+  isFormElement,
+  writeElementValue,
+} from './element-value';
+
+/**
+ * Binds a form validator to a form element: the values are read from the elements, the inputs
+ * are validated on the events of their trigger, after their debounce or throttle, and on
+ * submit. The messages are
+ * written in the feedback elements, and the elements get the CSS classes and aria-invalid.
+ * @example
+ * ```typescript
+ * const form = Jevalide.init().form({ email: 'required|email' }, {});
+ * form.bind('#signup', { onSubmit: (form) => api.post(form.validatedData()) });
+ * ```
+ */
+export class FormBinding<T = unknown, D = DeepPartial<T>> {
+  readonly element: HTMLFormElement;
+
+  private _options: FormBindingOptions<T, D> & {
+    invalidClass: string;
+    validClass: string;
+    display: WayDisplayError;
+  };
+
+  /**
+   * The inputs whose messages are displayed
+   */
+  private _validated = new Set<string>();
+
+  private _listeners: [string, EventListener][] = [];
+
+  private _unsubscribe: (() => void)[] = [];
+
+  constructor(
+    private readonly form: FormValidator<T, D>,
+    element: CssSelector,
+    options: FormBindingOptions<T, D> = {},
+  ) {
+    const formElement = getHTMLElementBySelector(element);
+    if (!(formElement instanceof HTMLFormElement)) {
+      throw new Error('The form element to bind was not found');
+    }
+    this.element = formElement;
+    this._options = {
+      invalidClass: 'is-invalid',
+      validClass: 'is-valid',
+      display: 'first',
+      ...options,
+    };
+  }
+
+  /**
+   * Read the values of the form, which become its initial values, and listen to its events.
+   */
+  bind(): this {
+    this.unbind();
+    this.sync();
+    this.form.snapshot();
+    this._listen('input', (event) => this._onInput(event, 'onChange'));
+    this._listen('change', (event) => this._onInput(event, 'onChange'));
+    this._listen('focusout', (event) => this._onInput(event, 'onBlur'));
+    this._listen('submit', (event) => this._onSubmit(event));
+    this._unsubscribe = [
+      this.form.onValidate(() => this.render()),
+      this.form.onReset(() => this.write()._clear()),
+    ];
+    return this;
+  }
+
+  /**
+   * Remove the listeners added by bind().
+   */
+  unbind(): this {
+    this._listeners.forEach(([type, listener]) => {
+      this.element.removeEventListener(type, listener);
+    });
+    this._listeners = [];
+    this._unsubscribe.forEach((unsubscribe) => unsubscribe());
+    this._unsubscribe = [];
+    return this;
+  }
+
+  /**
+   * Get the elements of an input, found with the input selector.
+   */
+  elements(name: string): FormElement[] {
+    const selector = this.form.parameter.getInputSelector(name);
+    if (typeof selector !== 'string') {
+      return isFormElement(selector) ? [selector] : [];
+    }
+    return Array.from(this.element.querySelectorAll(selector)).filter(
+      isFormElement,
+    );
+  }
+
+  /**
+   * Read the value of an input from its elements.
+   */
+  read(name: string): unknown {
+    return elementValue(this.elements(name));
+  }
+
+  /**
+   * Copy the values of the named elements to the form data.
+   */
+  sync(): this {
+    this._names().forEach((name) => {
+      this.form.setValue(name, this.read(name));
+    });
+    return this;
+  }
+
+  /**
+   * Copy the form data to the named elements, e.g. once the form is reset.
+   */
+  write(): this {
+    const data = this.form.getData() as object;
+    this._names().forEach((name) => {
+      writeElementValue(this.elements(name), data_get(data, name));
+    });
+    return this;
+  }
+
+  /**
+   * Display the messages of the validated inputs and of the errors set on the form. With the
+   * touchedOnly config, the untouched inputs are not rendered until the form is submitted.
+   */
+  render(): this {
+    const errors = this.form.errors;
+    const names = new Set([...this._validated, ...errors.keys()]);
+    names.forEach((name) => {
+      if (this.form.get(name)?.pending || !this.form.showsErrorsOf(name)) {
+        return;
+      }
+      this._renderInput(name, errors.get(name));
+    });
+    return this;
+  }
+
+  private _renderInput(name: string, messages: string[]) {
+    const { invalidClass, validClass, display } = this._options;
+    const invalid = messages.length > 0;
+    this.elements(name).forEach((element) => {
+      element.classList.toggle(invalidClass, invalid);
+      element.classList.toggle(validClass, !invalid);
+      element.setAttribute('aria-invalid', String(invalid));
+      if (this._options.nativeValidity) {
+        element.setCustomValidity(invalid ? messages[0] : '');
+      }
+    });
+
+    const feedback = this._feedback(name);
+    if (feedback) {
+      const shown =
+        display === 'full'
+          ? messages
+          : display === 'last'
+            ? messages.slice(-1)
+            : messages.slice(0, 1);
+      feedback.textContent = shown.join(' ');
+    }
+  }
+
+  /**
+   * Remove the rendering of the inputs, once the form is reset
+   */
+  private _clear() {
+    const { invalidClass, validClass } = this._options;
+    this._validated.forEach((name) => {
+      this.elements(name).forEach((element) => {
+        element.classList.remove(invalidClass, validClass);
+        element.removeAttribute('aria-invalid');
+        if (this._options.nativeValidity) {
+          element.setCustomValidity('');
+        }
+      });
+      const feedback = this._feedback(name);
+      if (feedback) {
+        feedback.textContent = '';
+      }
+    });
+    this._validated.clear();
+  }
+
+  private _feedback(name: string): HTMLElement | null {
+    const selector = this.form.parameter.getFeedbackSelector(name);
+    if (!selector) {
+      return null;
+    }
+    const feedback =
+      getHTMLElementBySelector(selector, this.element) ??
+      getHTMLElementBySelector(selector);
+    return feedback instanceof HTMLElement ? feedback : null;
+  }
+
+  private _onInput(event: Event, trigger: 'onChange' | 'onBlur') {
+    const target = event.target;
+    if (!isFormElement(target) || !target.name) {
+      return;
+    }
+    this.form.setValue(target.name, this.read(target.name));
+    if (trigger === 'onBlur') {
+      this.form.touch(target.name);
+      this.render();
+    }
+    const inputs = this._inputsOf(target.name).filter((input) =>
+      input.validatesOn(trigger),
+    );
+    inputs.forEach((input) => {
+      const name = input.getName();
+      input.schedule(() => {
+        this._validated.add(name);
+        // Avoid an unhandled rejection, e.g. a rule with invalid parameters
+        this.form.validateInputAsync(name).catch(() => undefined);
+      });
+    });
+  }
+
+  private _onSubmit(event: Event) {
+    this.sync();
+    this.form.markSubmitted();
+    // The submission validates every input now
+    this.form.all().forEach((input) => input.cancelScheduled());
+    this.form.all().forEach((input) => this._validated.add(input.getName()));
+    // The forms having asynchronous rules are validated asynchronously right away
+    if (!this.form.all().some((input) => input.hasAsyncRules())) {
+      const valid = this.form.isValid();
+      if (!this.form.all().some((input) => input.pending)) {
+        if (!valid) {
+          event.preventDefault();
+          this._reportValidity();
+        } else if (this._options.onSubmit) {
+          event.preventDefault();
+          this._options.onSubmit(this.form, event);
+        }
+        return;
+      }
+    }
+    // Wait for the asynchronous rules, then submit again
+    event.preventDefault();
+    this.form
+      .isValidAsync()
+      .then((passes) => {
+        if (!passes) {
+          this._reportValidity();
+          return;
+        }
+        if (this._options.onSubmit) {
+          this._options.onSubmit(this.form, event);
+        } else {
+          HTMLFormElement.prototype.submit.call(this.element);
+        }
+      })
+      .catch(() => undefined);
+  }
+
+  private _reportValidity() {
+    if (this._options.nativeValidity) {
+      this.element.reportValidity();
+    }
+  }
+
+  /**
+   * The inputs of a name, and of its nested paths like the items of a wildcard
+   */
+  private _inputsOf(name: string) {
+    return this.form
+      .all()
+      .filter(
+        (input) =>
+          input.getName() === name || input.getName().startsWith(`${name}.`),
+      );
+  }
+
+  private _names(): string[] {
+    const names = Array.from(this.element.elements)
+      .filter(isFormElement)
+      .map((element) => element.name)
+      .filter((name) => !!name);
+    return names.filter((name, index) => names.indexOf(name) === index);
+  }
+
+  private _listen(type: string, listener: EventListener) {
+    this.element.addEventListener(type, listener);
+    this._listeners.push([type, listener]);
+  }
+}
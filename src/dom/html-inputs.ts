@@ -0,0 +1,136 @@
+import { InputParms, ScanOptions } from '../contracts';
+import { tr_attr_get } from '../utils';
+import { FormElement, isFormElement } from './element-value';
+
+/**
+ * Build the inputs of a form from the attributes of its elements:
+ * - `data-tr-rules`: the rules, e.g. `required|email`
+ * - `data-tr-messages`: the messages, separated by pipes or as a JSON object keyed by rule
+ * - `data-tr-attribute`: the name used in the messages
+ * - `data-tr-fails-on-first`: `true` or `false`
+ *
+ * With the `native` option, the HTML constraints are mapped to the equivalent rules.
+ * @example
+ * ```html
+ * <input name="email" type="email" required data-tr-rules="maxlength:100" data-tr-attribute="Email">
+ * ```
+ * ```typescript
+ * scanInputs(form, { native: true });
+ * // { email: { name: 'email', rules: ['maxlength:100', 'required', 'email'], attribute: 'Email' } }
+ * ```
+ */
+export function scanInputs(
+  form: HTMLFormElement,
+  options: ScanOptions = {},
+): Record<string, InputParms> {
+  const inputs: Record<string, InputParms> = {};
+  for (const element of Array.from(form.elements)) {
+    if (!isFormElement(element) || !element.name || inputs[element.name]) {
+      continue;
+    }
+    const input = scanInput(element, options);
+    if (input) {
+      inputs[element.name] = input;
+    }
+  }
+  return inputs;
+}
+
+function scanInput(
+  element: FormElement,
+  options: ScanOptions,
+): InputParms | null {
+  const rules = tr_attr_get<string | null>(element, 'rules');
+  const ruleList = rules
+    ? rules
+        .split('|')
+        .map((rule) => rule.trim())
+        .filter((rule) => !!rule)
+    : [];
+  if (options.native) {
+    const native = nativeRules(element).filter(
+      (rule) => !ruleList.some((r) => ruleName(r) === ruleName(rule)),
+    );
+    ruleList.push(...native);
+    // Like the browser, the constraints of an optional element only apply to a filled value
+    const names = ruleList.map(ruleName);
+    if (
+      native.length &&
+      !names.includes('required') &&
+      !names.includes('nullable')
+    ) {
+      ruleList.unshift('nullable');
+    }
+  }
+  if (!ruleList.length) {
+    return null;
+  }
+
+  const input: InputParms = { name: element.name, rules: ruleList };
+  const messages = tr_attr_get<string | null>(element, 'messages');
+  if (messages) {
+    input.messages = parseMessages(messages);
+  }
+  const attribute = tr_attr_get<string | null>(element, 'attribute');
+  if (attribute) {
+    input.attribute = attribute;
+  }
+  const failsOnFirst = tr_attr_get<string | null>(element, 'fails-on-first');
+  if (failsOnFirst !== null) {
+    input.failsOnfirst = failsOnFirst !== 'false';
+  }
+  return input;
+}
+
+function ruleName(rule: string): string {
+  return rule.split(':')[0];
+}
+
+function parseMessages(messages: string): string | Record<string, string> {
+  if (messages.trim().startsWith('{')) {
+    try {
+      return JSON.parse(messages);
+    } catch (error) {
+      return messages;
+    }
+  }
+  return messages;
+}
+
+/**
+ * Map the HTML constraints of an element to the equivalent rules
+ */
+function nativeRules(element: FormElement): string[] {
+  const rules: string[] = [];
+  if (element.required) {
+    rules.push('required');
+  }
+  if (element instanceof HTMLSelectElement) {
+    return rules;
+  }
+  const type = element instanceof HTMLInputElement ? element.type : 'text';
+  if (type === 'email' || type === 'url' || type === 'date') {
+    rules.push(type);
+  }
+  if (type === 'number' || type === 'range') {
+    rules.push('number');
+    ['min', 'max'].forEach((attr) => {
+      const value = element.getAttribute(attr);
+      if (value !== null && value !== '') {
+        rules.push(`${attr}:${value}`);
+      }
+    });
+  }
+  ['minlength', 'maxlength'].forEach((attr) => {
+    const value = element.getAttribute(attr);
+    if (value !== null && value !== '') {
+      rules.push(`${attr}:${value}`);
+    }
+  });
+  const pattern = element.getAttribute('pattern');
+  if (pattern) {
+    // The pattern must match the whole value
+    rules.push(`regex:^(?:${pattern})$`);
+  }
+  return rules;
+}
@@ -0,0 +1,3 @@
+export * from './element-value';
+export * from './form-binding';
+export * from './html-inputs';
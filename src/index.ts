@@ -1,4 +1,12 @@
 import { Jevalide } from './validation/jevalide';
+import { j } from './schema';
+import { registerCountry } from './rules/phone/registry';
+import { setClock } from './utils/clock';
+import {
+  formatPhone,
+  isPhoneType,
+  parsePhone,
+} from './rules/phone/phone-number';
 
 declare global {
   interface Window {
@@ -10,4 +18,22 @@ if (typeof window !== 'undefined') {
   window.Jevalide = window.Jevalide ?? Jevalide;
 }
 
-export { Jevalide };
+export {
+  Jevalide,
+  j,
+  registerCountry,
+  parsePhone,
+  formatPhone,
+  isPhoneType,
+  setClock,
+};
+export type { Infer } from './schema';
+export type { InferForm } from './contracts';
+export type { Clock } from './utils/clock';
+export type {
+  ParsedPhone,
+  PhoneCountry,
+  PhoneFormat,
+  PhoneTemplate,
+  PhoneType,
+} from './rules/phone/country-phone-validator.interface';
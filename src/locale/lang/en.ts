@@ -32,14 +32,29 @@ export const en_messages: RulesMessages = {
   password:
     'The password must be at least 8 characters long and include an uppercase letter, a lowercase letter, a digit, and a special character.',
   date: 'This field must be a valid date',
+  dateFormat: 'This field must be a valid date in the format :arg0',
   before: 'The date must be before (:arg0)',
   after: 'The date must be after (:arg0)',
   same: 'This field must be identical to the value of the :arg0 field',
   requiredIf:
     'The :field field is required when the :arg0 field has the current value',
+  requiredUnless:
+    'The :field field is required unless the :arg0 field has the current value',
+  requiredWith:
+    'The :field field is required when any of the ...arg fields is present',
   requiredWhen:
-    'The :field field is required when the :arg0 fields are present',
+    'The :field field is required when the ...arg fields are present',
   phone: 'This phone number seems to be invalid',
+  phoneType: 'This phone number is not of an accepted type',
+  phoneRegion:
+    'This phone number must start with its country calling code, e.g. +33',
+  mobilePhone: 'This field must be a mobile phone number',
+  landlinePhone: 'This field must be a landline phone number',
+  fixedLineOrMobilePhone:
+    'This field must be a mobile or landline phone number',
+  tollFreePhone: 'This field must be a toll-free phone number',
+  premiumPhone: 'This field must be a premium-rate phone number',
+  voipPhone: 'This field must be a VoIP phone number',
   time: 'The :field field must be a valid time.',
   startWithString: 'The :field field must start with a letter',
   endWithString: 'The :field field must end with a letter',
@@ -68,4 +83,13 @@ export const en_messages: RulesMessages = {
   object: 'This field must be a valid object',
   array: 'This field must be a valid array',
   json: 'This field must be a valid JSON string',
+  minItems: 'This field must contain at least :arg0 items',
+  maxItems: 'This field must contain at most :arg0 items',
+  itemsBetween: 'This field must contain between :arg0 and :arg1 items',
+  distinct: 'The items of this field must be unique',
+  includesItem: 'This field must contain the items: ...arg',
+  arrayOf: 'Some items of this field are invalid',
+  shape: 'Some keys of this field are invalid',
+  unknownKey: 'The :field key is not allowed',
+  validity: 'The :field field is invalid',
 };
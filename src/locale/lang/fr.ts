@@ -32,15 +32,30 @@ export const fr_messages: RulesMessages = {
   password:
     'Le mot de passe doit contenir au moins 8 caractères, une majuscule, une minuscule, un chiffre et un caractère spécial',
   date: 'Ce champ doit être une date valide',
+  dateFormat: 'Ce champ doit être une date valide au format :arg0',
   before: 'La date doit être antérieure à (:arg0)',
   after: 'La date doit être postérieure à (:arg0)',
   same: 'Ce champ doit être identique à la valeur du champ :arg0',
   equal: 'Ce champ doit être strictement égal à :arg0',
   requiredIf:
     'Le champ :field est requis lorsque le champ :arg0 a la valeur actuelle',
+  requiredUnless:
+    'Le champ :field est requis sauf si le champ :arg0 a la valeur actuelle',
+  requiredWith:
+    "Le champ :field est requis lorsque l'un des champs ...arg est présent",
   requiredWhen:
-    'Le champ :field est requis lorsque les champs :arg0 sont présents',
+    'Le champ :field est requis lorsque les champs ...arg sont présents',
   phone: 'Ce numéro de téléphone semble invalide',
+  phoneType: "Ce numéro de téléphone n'est pas d'un type accepté",
+  phoneRegion:
+    'Ce numéro de téléphone doit commencer par son indicatif pays, par exemple +33',
+  mobilePhone: 'Ce champ doit être un numéro de téléphone mobile',
+  landlinePhone: 'Ce champ doit être un numéro de téléphone fixe',
+  fixedLineOrMobilePhone:
+    'Ce champ doit être un numéro de téléphone mobile ou fixe',
+  tollFreePhone: 'Ce champ doit être un numéro vert',
+  premiumPhone: 'Ce champ doit être un numéro surtaxé',
+  voipPhone: 'Ce champ doit être un numéro de téléphone VoIP',
   time: 'Le champ :field doit être une heure valide',
   startWithString: 'Le champ :field doit commencer par une lettre',
   endWithString: 'Le champ :field doit se terminer par une lettre',
@@ -72,4 +87,13 @@ export const fr_messages: RulesMessages = {
   object: 'Ce champ doit être un objet valide',
   array: 'Ce champ doit être un tableau valide',
   json: 'Ce champ doit être une chaîne JSON valide',
+  minItems: 'Ce champ doit contenir au moins :arg0 éléments',
+  maxItems: 'Ce champ doit contenir au plus :arg0 éléments',
+  itemsBetween: 'Ce champ doit contenir entre :arg0 et :arg1 éléments',
+  distinct: 'Les éléments de ce champ doivent être uniques',
+  includesItem: 'Ce champ doit contenir les éléments : ...arg',
+  arrayOf: 'Certains éléments de ce champ sont invalides',
+  shape: 'Certaines clés de ce champ sont invalides',
+  unknownKey: "La clé :field n'est pas autorisée",
+  validity: 'Le champ :field est invalide',
 };
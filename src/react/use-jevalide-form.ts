@@ -0,0 +1,238 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Jevalide } from '../index';
+import { elementValue, isFormElement } from '../dom';
+import { isFile } from '../rules';
+import { data_get } from '../utils';
+import type {
+  FormConfig,
+  FormInput,
+  FormOutput,
+  MakeInput,
+} from '../contracts';
+import type { ErrorBag, FormValidator } from '../validation';
+
+/**
+ * The props given to a form element by register()
+ */
+export type RegisteredProps = {
+  name: string;
+  /**
+   * Left out for a file input, which is uncontrolled
+   */
+  value?: string | string[];
+  checked?: boolean;
+  onChange: (eventOrValue: unknown) => void;
+  onBlur: () => void;
+};
+
+export type UseJevalideForm<T, D> = {
+  /**
+   * The form validator, for what the hook doesn't expose
+   */
+  form: FormValidator<T, D>;
+  /**
+   * The form data
+   */
+  values: D;
+  /**
+   * The first message of each failed input, like `form.errors`
+   */
+  errors: Record<string, string>;
+  /**
+   * The touched inputs
+   */
+  touched: Record<string, boolean>;
+  isDirty: boolean;
+  /**
+   * Check if a submission waits for asynchronous rules
+   */
+  isSubmitting: boolean;
+  /**
+   * Get the props of the element of an input. Give the value of a checkbox or a radio to get
+   * its `checked` prop, a checkbox then adds its value to the array of the input, or sets it.
+   */
+  register: (name: string, option?: string) => RegisteredProps;
+  /**
+   * Set a value and validate its inputs on change, as their trigger allows
+   */
+  setValue: (name: string, value: unknown) => void;
+  /**
+   * Get a submit handler validating the form, then calling onValid with the validated data or
+   * onInvalid with the errors
+   */
+  handleSubmit: (
+    onValid: (data: T, form: FormValidator<T, D>) => unknown,
+    onInvalid?: (errors: ErrorBag, form: FormValidator<T, D>) => unknown,
+  ) => (event?: { preventDefault?: () => void }) => Promise<void>;
+  /**
+   * Restore the initial data, see FormValidator.reset()
+   */
+  reset: () => void;
+};
+
+/**
+ * Create a form validator for a component. The component renders again when an input is
+ * validated, the form is reset or submitted.
+ * @example
+ * ```tsx
+ * const { register, errors, handleSubmit } = useJevalideForm(
+ *   { email: 'required|email' },
+ *   { email: '' },
+ * );
+ * return (
+ *   <form onSubmit={handleSubmit((data) => api.post('/users', data))}>
+ *     <input {...register('email')} />
+ *     {errors.email && <p>{errors.email}</p>}
+ *   </form>
+ * );
+ * ```
+ */
+export function useJevalideForm<
+  T = never,
+  const I extends MakeInput = MakeInput,
+>(
+  inputs: I,
+  initialData: NoInfer<FormInput<T>>,
+  config?: FormConfig,
+): UseJevalideForm<FormOutput<T, I>, NoInfer<FormInput<T>>> {
+  const [form] = useState(() =>
+    Jevalide.getInstance().form<T, I>(inputs, initialData, config),
+  );
+  const [, setVersion] = useState(0);
+  const [isSubmitting, setSubmitting] = useState(false);
+  const update = useCallback(() => setVersion((version) => version + 1), []);
+
+  useEffect(() => {
+    const unsubscribe = [form.onValidate(update), form.onReset(update)];
+    return () => {
+      unsubscribe.forEach((fn) => fn());
+      form.all().forEach((input) => input.cancelScheduled());
+    };
+  }, [form, update]);
+
+  const inputsOf = (name: string) =>
+    form
+      .all()
+      .filter(
+        (input) =>
+          input.getName() === name || input.getName().startsWith(`${name}.`),
+      );
+
+  const validate = (name: string, trigger: 'onChange' | 'onBlur') => {
+    inputsOf(name)
+      .filter((input) => input.validatesOn(trigger))
+      .forEach((input) => {
+        input.schedule(() =>
+          form.validateInputAsync(input.getName()).catch(() => undefined),
+        );
+      });
+  };
+
+  const setValue = (name: string, value: unknown) => {
+    form.setValue(name, value);
+    validate(name, 'onChange');
+    update();
+  };
+
+  const register = (name: string, option?: string): RegisteredProps => {
+    const current = data_get(form.getData() as object, name);
+    const props: RegisteredProps = {
+      name,
+      onChange: (eventOrValue) =>
+        setValue(name, readValue(eventOrValue, current, option)),
+      onBlur: () => {
+        form.touch(name);
+        validate(name, 'onBlur');
+        update();
+      },
+    };
+    // The value of a file input can't be set
+    if (option !== undefined || !isFile(current).passes) {
+      props.value = option ?? toElementValue(current);
+    }
+    if (option !== undefined) {
+      props.checked = Array.isArray(current)
+        ? current.map(String).includes(option)
+        : current === option;
+    }
+    return props;
+  };
+
+  const handleSubmit: UseJevalideForm<
+    FormOutput<T, I>,
+    FormInput<T>
+  >['handleSubmit'] = (onValid, onInvalid) => async (event) => {
+    event?.preventDefault?.();
+    form.markSubmitted();
+    form.all().forEach((input) => input.cancelScheduled());
+    setSubmitting(true);
+    try {
+      if (await form.isValidAsync()) {
+        await onValid(form.validatedData() as FormOutput<T, I>, form);
+      } else {
+        await onInvalid?.(form.errors, form);
+      }
+    } finally {
+      setSubmitting(false);
+      update();
+    }
+  };
+
+  const errors: Record<string, string> = {};
+  const bag = form.errors;
+  bag.keys().forEach((path) => {
+    errors[path] = bag.first(path) ?? '';
+  });
+
+  const touched: Record<string, boolean> = {};
+  form.touchedFields().forEach((name) => {
+    touched[name] = true;
+  });
+
+  return {
+    form,
+    values: form.getData(),
+    errors,
+    touched,
+    isDirty: form.isDirty(),
+    isSubmitting,
+    register,
+    setValue,
+    handleSubmit,
+    reset: () => form.reset(),
+  };
+}
+
+function toElementValue(value: unknown): string | string[] {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * Read the new value from a change event, or take the value given by a custom component
+ */
+function readValue(eventOrValue: unknown, current: unknown, option?: string) {
+  const target =
+    eventOrValue && typeof eventOrValue === 'object'
+      ? (eventOrValue as { target?: unknown }).target
+      : undefined;
+  if (!isFormElement(target)) {
+    return eventOrValue;
+  }
+  if (target instanceof HTMLInputElement && target.type === 'checkbox') {
+    if (option === undefined) {
+      return target.checked;
+    }
+    if (Array.isArray(current)) {
+      const values = current.filter((value) => String(value) !== option);
+      return target.checked ? [...values, option] : values;
+    }
+    return target.checked ? option : null;
+  }
+  if (target instanceof HTMLInputElement && target.type === 'radio') {
+    return target.checked ? target.value : current;
+  }
+  return elementValue([target]);
+}
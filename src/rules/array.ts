@@ -0,0 +1,194 @@
+import { isNumber } from './number';
+import { ItemError, RuleCallBack, RuleParam } from '../contracts';
+import {
+  data_equal,
+  data_get,
+  getRule,
+  isPromise,
+  spliteParam,
+  throwEmptyArgsException,
+} from '../utils';
+
+/**
+ * Read a count parameter of an array rule
+ */
+const countParam = (rule: string, param: unknown) => {
+  if (!isNumber(param).passes) {
+    throwEmptyArgsException(
+      rule,
+      `The <<${rule}>> rule parameter must be a number`,
+    );
+  }
+  return Number(param);
+};
+
+/**
+ * This is a callback function that checks if an array has at least the given number of items.
+ *
+ * @param input The array to check
+ * @param min The minimum number of items
+ * @description
+ * ```md
+ *  array|minItems:2
+ * ```
+ */
+export const minItems: RuleCallBack = (input, min) => {
+  const count = countParam('minItems', min);
+  return {
+    passes: Array.isArray(input) && input.length >= count,
+    value: input,
+  };
+};
+
+/**
+ * This is a callback function that checks if an array has at most the given number of items.
+ *
+ * @param input The array to check
+ * @param max The maximum number of items
+ * @description
+ * ```md
+ *  array|maxItems:5
+ * ```
+ */
+export const maxItems: RuleCallBack = (input, max) => {
+  const count = countParam('maxItems', max);
+  return {
+    passes: Array.isArray(input) && input.length <= count,
+    value: input,
+  };
+};
+
+/**
+ * This is a callback function that checks if the number of items of an array is between a minimum
+ * and a maximum, both included.
+ *
+ * @param input The array to check
+ * @param range The minimum and the maximum, comma-separated
+ * @description
+ * ```md
+ *  array|itemsBetween:1,5
+ * ```
+ */
+export const itemsBetween: RuleCallBack = (input, range) => {
+  const [min, max] = spliteParam(String(range ?? ''));
+  return {
+    passes:
+      minItems(input, countParam('itemsBetween', min)).passes &&
+      maxItems(input, countParam('itemsBetween', max)).passes,
+    value: input,
+  };
+};
+
+/**
+ * This is a callback function that checks if the items of an array are all different. Give a
+ * path to compare the items of an array of objects by one of their values.
+ *
+ * @param input The array to check
+ * @param path Optional. The path of the value to compare, e.g. `email` or `address.city`
+ * @description
+ * ```md
+ *  array|distinct
+ *  array|distinct:email
+ * ```
+ */
+export const distinct: RuleCallBack = (input, path) => {
+  if (!Array.isArray(input)) {
+    return {
+      passes: false,
+      value: input,
+    };
+  }
+  const values = path
+    ? input.map((item) => data_get(item, String(path)))
+    : input;
+  return {
+    passes: values.every(
+      (value, index) =>
+        values.findIndex((other) => data_equal(value, other)) === index,
+    ),
+    value: input,
+  };
+};
+
+/**
+ * This is a callback function that checks if an array contains each of the given items.
+ *
+ * @param input The array to check
+ * @param items The items that must be in the array, comma-separated
+ * @description
+ * ```md
+ *  array|includesItem:admin
+ *  array|includesItem:read,write
+ * ```
+ */
+export const includesItem: RuleCallBack = (input, items) => {
+  if (!items) {
+    throwEmptyArgsException('includesItem');
+  }
+  if (!Array.isArray(input)) {
+    return {
+      passes: false,
+      value: input,
+    };
+  }
+  const values = input.map((item) => String(item));
+  return {
+    passes: spliteParam(String(items)).every((item) =>
+      values.includes(String(item)),
+    ),
+    value: input,
+  };
+};
+
+/**
+ * Make the arrayOf rule, which runs a rule on each item of an array. The failed items are given
+ * in the `items` of the state, so that a form reports an error for each of them.
+ *
+ * @param findRule Get the callback of a registered rule
+ * @description
+ * ```md
+ *  array|arrayOf:email
+ *  array|arrayOf:min:3
+ * ```
+ */
+export const makeArrayOf =
+  (findRule: (name: string) => RuleCallBack | undefined): RuleCallBack =>
+  (input, rule, type, context) => {
+    if (!rule) {
+      throwEmptyArgsException('arrayOf');
+    }
+    const { ruleName, params } = getRule(String(rule));
+    const callback = findRule(ruleName);
+    if (!callback) {
+      throw new Error(`The rule ${ruleName} is not defined`);
+    }
+    if (!Array.isArray(input)) {
+      return {
+        passes: false,
+        value: input,
+      };
+    }
+    const items: Record<string, ItemError> = {};
+    input.forEach((item, index) => {
+      const state = callback(
+        item,
+        params as RuleParam,
+        type,
+        context && { ...context, path: `${context.path}.${index}` },
+      );
+      if (isPromise(state)) {
+        throw new Error(
+          `The rule ${ruleName} is asynchronous, it can't be run by arrayOf`,
+        );
+      }
+      if (!state.passes) {
+        // The message of the item is the one of the rule, or of its alias, e.g. minlength for min
+        items[index] = { rule: state.alias ?? ruleName, params, value: item };
+      }
+    });
+    return {
+      passes: Object.keys(items).length === 0,
+      value: input,
+      items,
+    };
+  };
@@ -1,9 +1,110 @@
-import dayjs from 'dayjs';
-import { RuleCallBack } from '../contracts';
+import dayjs, { Dayjs, ManipulateType, OpUnitType } from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+import timezone from 'dayjs/plugin/timezone';
+import utc from 'dayjs/plugin/utc';
+import { RuleCallBack, RuleContext } from '../contracts';
 import { now, spliteParam, throwEmptyArgsException } from '../utils';
 
+dayjs.extend(customParseFormat);
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const isoDate =
+  /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const withOffset = /(?:Z|[+-]\d{2}:?\d{2})$/;
+
+const offsetExpression =
+  /^([+-]\d+)\s*(second|minute|hour|day|week|month|year)s?$/;
+
+const periods: OpUnitType[] = ['day', 'week', 'month', 'year'];
+
+/**
+ * The keywords of the relative dates, computed from the current date
+ */
+const keywords: Record<string, (current: Dayjs) => Dayjs> = {
+  now: (current) => current,
+  today: (current) => current.startOf('day'),
+  tomorrow: (current) => current.add(1, 'day').startOf('day'),
+  yesterday: (current) => current.subtract(1, 'day').startOf('day'),
+};
+periods.forEach((period) => {
+  const name = period.charAt(0).toUpperCase() + period.slice(1);
+  keywords[`startOf${name}`] = (current) => current.startOf(period);
+  keywords[`endOf${name}`] = (current) => current.endOf(period);
+});
+
+/**
+ * Read a date. With the date format of the form, e.g. `DD/MM/YYYY`, the date is parsed strictly
+ * with this format, or in ISO 8601, the format of the values normalized by the date rules. With
+ * the timezone of the form, a date without offset is a date of this timezone.
+ */
+function parseDate(input: unknown, context?: RuleContext): Dayjs | null {
+  if (!input) {
+    return null;
+  }
+  if (input instanceof Date) {
+    const djs = dayjs(input);
+    return djs.isValid() ? djs : null;
+  }
+  const value = String(input).trim();
+  const format = context?.dateFormat;
+  let djs = format ? dayjs(value, format, true) : null;
+  if (!djs?.isValid()) {
+    djs = format && !isoDate.test(value) ? null : dayjs(new Date(value));
+  }
+  return djs?.isValid()
+    ? inTimezone(djs, value, format, context?.timezone)
+    : null;
+}
+
+/**
+ * Read a parsed date again in a timezone, unless its value has an offset
+ */
+function inTimezone(djs: Dayjs, value: string, format?: string, zone?: string) {
+  if (!zone || withOffset.test(value) || format?.includes('Z')) {
+    return djs;
+  }
+  // The wall time of the date, read in the timezone
+  return dayjs.tz(
+    isoDate.test(value) ? value : djs.format('YYYY-MM-DDTHH:mm:ss.SSS'),
+    zone,
+  );
+}
+
+/**
+ * Read a relative date, e.g. `today`, `startOfMonth`, `+30 days` or `-18 years`, from the date
+ * given by the clock, in the timezone of the form
+ */
+function relativeDate(expression: string, context?: RuleContext) {
+  const current = context?.timezone
+    ? dayjs(now()).tz(context.timezone)
+    : dayjs(now());
+  if (keywords[expression]) {
+    return keywords[expression](current);
+  }
+  const match = expression.match(offsetExpression);
+  return match
+    ? current.add(Number(match[1]), match[2] as ManipulateType)
+    : null;
+}
+
+/**
+ * Read the date given to a rule, a date or a relative date
+ */
+function dateParam(rule: string, date: unknown, context?: RuleContext) {
+  const djs =
+    relativeDate(String(date ?? '').trim(), context) ??
+    parseDate(date, context);
+  if (!djs) {
+    throw new Error(`Pease provide a valid argument for ${rule} rule`);
+  }
+  return djs;
+}
+
 /**
- * This is a callback function that checks if the input is a valid date.
+ * This is a callback function that checks if the input is a valid date. The date is read with the
+ * date format of the form when it has one. The value is normalized in ISO 8601.
  *
  * @param input The input string to be validated.
  * @description
@@ -11,88 +112,116 @@ import { now, spliteParam, throwEmptyArgsException } from '../utils';
  *  required|date
  * ```
  */
-export const isDate: RuleCallBack = (input) => {
-  if (!input) {
+export const isDate: RuleCallBack = (input, _param, _type, context) => {
+  const djs = parseDate(input, context);
+  if (djs) {
     return {
-      passes: false,
-      value: input,
+      passes: true,
+      value: djs.toISOString(),
+      type: 'date',
     };
   }
-  const djs = dayjs(new Date(input.toString()), undefined, true);
+  return {
+    passes: false,
+    value: input,
+  };
+};
 
-  if (djs.isValid()) {
+/**
+ * This is a callback function that checks if the input is a date in the given format, parsed
+ * strictly: `31/12/2024` is a valid `DD/MM/YYYY` date, `31/02/2024` is not. The format defaults
+ * to the date format of the form. The value is normalized in ISO 8601.
+ *
+ * @param input The date to check.
+ * @param format The format of the date, with the dayjs tokens.
+ * @description
+ * ```md
+ *  required|dateFormat:DD/MM/YYYY
+ *  required|dateFormat:YYYY-MM-DD HH:mm
+ * ```
+ */
+export const dateFormat: RuleCallBack = (input, format, _type, context) => {
+  const expected = format ? String(format) : context?.dateFormat;
+  if (!expected) {
+    throwEmptyArgsException('dateFormat');
+  }
+  const djs =
+    typeof input === 'string'
+      ? dayjs(input.trim(), expected as string, true)
+      : null;
+  if (djs?.isValid()) {
     return {
       passes: true,
-      value: djs.toISOString(),
+      value: inTimezone(
+        djs,
+        input as string,
+        expected,
+        context?.timezone,
+      ).toISOString(),
       type: 'date',
     };
   }
   return {
     passes: false,
     value: input,
+    // The message of the date rule, the format isn't among the parameters
+    alias: format ? undefined : 'date',
   };
 };
 
 /**
- * This is a callback function that checks if a given date is before another date.
+ * This is a callback function that checks if a given date is before another date. Both dates are
+ * read with the date format of the form, or in ISO 8601.
  *
  * @param input The date to check, as a string in ISO 8601 format or a Date object.
- * @param date The date to compare against, as a string in ISO 8601 format or the string "now" to use the current date and time.
+ * @param date The date to compare against, in ISO 8601 format, or a relative date: `now`, `today`, `startOfMonth`, `+30 days`...
  * @description
  * ```md
  *  required|before:2020-11-11
  *  required|before:now
+ *  required|before:+30 days
  * ```
  */
-export const dateBefore: RuleCallBack = (input, date) => {
-  if (date === 'now') {
-    date = now();
-  }
-  if (!isDate(input).passes) {
+export const dateBefore: RuleCallBack = (input, date, _type, context) => {
+  const djs = parseDate(input, context);
+  if (!djs) {
     return {
       passes: false,
       value: input,
     };
   }
-
-  if (!isDate(date).passes) {
-    throw new Error('Pease provide a valid argument for dateBefore rule');
-  }
   return {
-    passes: dayjs(input as string).isBefore(date as string),
-    value: input,
+    passes: djs.isBefore(dateParam('dateBefore', date, context)),
+    value: djs.toISOString(),
+    type: 'date',
   };
 };
 
 /**
- * This is a callback function that checks if a given date is after another date.
+ * This is a callback function that checks if a given date is after another date. Both dates are
+ * read with the date format of the form, or in ISO 8601.
  *
  * @param input The date to check, as a string in ISO 8601 format or a Date object.
- * @param date The date to compare against, as a string in ISO 8601 format or the string "now" to use the current date and time.
+ * @param date The date to compare against, in ISO 8601 format, or a relative date: `now`, `today`, `startOfMonth`, `+30 days`...
  * @description
  * ```md
  *  required|after:2020-11-11
  *  required|after:now
+ *  required|after:today
  * ```
  */
-export const dateAfter: RuleCallBack = (input, date) => {
-  if (date === 'now') {
-    date = now();
-  }
-
-  if (!isDate(input).passes) {
+export const dateAfter: RuleCallBack = (input, date, _type, context) => {
+  const djs = parseDate(input, context);
+  if (!djs) {
     return {
       passes: false,
       value: input,
     };
   }
-
-  if (!isDate(date).passes) {
-    throw new Error('Pease provide a valid argument for dateAfter rule');
-  }
   return {
-    passes: dayjs(input as string).isAfter(date as string),
-    value: isDate(input).value,
+    passes: djs.isAfter(dateParam('dateAfter', date, context)),
+    value: djs.toISOString(),
+    type: 'date',
   };
 };
 
@@ -100,23 +229,25 @@ export const dateAfter: RuleCallBack = (input, date) => {
  * This is a callback function that checks if a given date is between two other dates.
  *
  * @param input The date to check, as a string in ISO 8601 format or a Date object.
- * @param date The range of dates to compare against, as a string in the format "startDate,endDate", where startDate and endDate are strings in ISO 8601 format or the string "now" to use the current date and time.
+ * @param date The range of dates to compare against, as a string in the format "startDate,endDate", where startDate and endDate are strings in ISO 8601 format or relative dates, e.g. `today` or `+30 days`.
  * @description
  * ```md
  *  required|dateBetween:2020-11-11,now
  *  required|dateBetween:2020-11-11,2021-11-11
+ *  required|dateBetween:today,+30 days
  * ```
  * @throws An exception with the message "Missing required argument: dateBetween" if the date parameter is falsy.
  */
-export const dateBetween: RuleCallBack = (input, date) => {
+export const dateBetween: RuleCallBack = (input, date, type, context) => {
   if (!date) {
     throwEmptyArgsException('dateBetween');
   }
   const [startDate, endDate] = spliteParam(date as string);
+  const after = dateAfter(input, startDate, type, context);
   return {
-    passes:
-      dateAfter(input, startDate).passes && dateBefore(input, endDate).passes,
-    value: input,
+    passes: after.passes && dateBefore(input, endDate, type, context).passes,
+    value: after.value,
+    type: after.type,
   };
 };
 
@@ -7,10 +7,11 @@ import {
   stringBetween,
   fileBetween,
 } from '.';
-import { RuleCallBack } from '../contracts';
+import { RuleCallBack, RuleParam } from '../contracts';
 import {
   calculateFileSize,
   convertFileSize,
+  data_get,
   explodeFileParam,
   spliteParam,
   throwEmptyArgsException,
@@ -72,6 +73,123 @@ export const required: RuleCallBack = (input) => {
   };
 };
 
+/**
+ * Applies the required rule only when the condition is met, otherwise the value passes.
+ */
+const requiredWhenMet = (input: unknown, condition: boolean) => {
+  if (condition) {
+    return required(input);
+  }
+  return {
+    passes: true,
+    value: input,
+  };
+};
+
+/**
+ * Parses the `field,value1,value2...` parameter of the conditional required rules.
+ */
+const parseFieldAndValues = (rule: string, params: RuleParam) => {
+  const [field, ...values] = spliteParam(params as string);
+  if (!field || !values.length) {
+    throwEmptyArgsException(rule);
+  }
+  return { field: field as string, values: values.map((v) => String(v)) };
+};
+
+/**
+ * The field is required when another field of the form is equal to one of the given values.
+ *
+ * @param input - The value to validate.
+ * @param params - The other field path, followed by the values that make this field required.
+ * @param type - The input type.
+ * @param context - The validation context, used to read the other field.
+ * @example
+ * ```md
+ *  requiredIf:country,US
+ *  requiredIf:shipping.method,express,overnight
+ * ```
+ */
+export const requiredIf: RuleCallBack = (input, params, type, context) => {
+  const { field, values } = parseFieldAndValues('requiredIf', params);
+  const other = data_get(context?.data, field);
+  return requiredWhenMet(
+    input,
+    other !== null && values.includes(String(other)),
+  );
+};
+
+/**
+ * The field is required unless another field of the form is equal to one of the given values.
+ *
+ * @param input - The value to validate.
+ * @param params - The other field path, followed by the values that make this field optional.
+ * @param type - The input type.
+ * @param context - The validation context, used to read the other field.
+ * @example
+ * ```md
+ *  requiredUnless:payment,cash
+ * ```
+ */
+export const requiredUnless: RuleCallBack = (input, params, type, context) => {
+  const { field, values } = parseFieldAndValues('requiredUnless', params);
+  const other = data_get(context?.data, field);
+  return requiredWhenMet(
+    input,
+    other === null || !values.includes(String(other)),
+  );
+};
+
+/**
+ * The field is required when any of the other given fields is present.
+ *
+ * @param input - The value to validate.
+ * @param fields - The other field paths, separated by commas.
+ * @param type - The input type.
+ * @param context - The validation context, used to read the other fields.
+ * @example
+ * ```md
+ *  requiredWith:street,city
+ * ```
+ */
+export const requiredWith: RuleCallBack = (input, fields, type, context) => {
+  const paths = spliteParam(fields as string);
+  if (!paths.length) {
+    throwEmptyArgsException('requiredWith');
+  }
+  return requiredWhenMet(
+    input,
+    paths.some(
+      (path) => required(data_get(context?.data, path as string)).passes,
+    ),
+  );
+};
+
+/**
+ * The field is required when all of the other given fields are present.
+ *
+ * @param input - The value to validate.
+ * @param fields - The other field paths, separated by commas.
+ * @param type - The input type.
+ * @param context - The validation context, used to read the other fields.
+ * @example
+ * ```md
+ *  requiredWhen:street,city
+ * ```
+ */
+export const requiredWhen: RuleCallBack = (input, fields, type, context) => {
+  const paths = spliteParam(fields as string);
+  if (!paths.length) {
+    throwEmptyArgsException('requiredWhen');
+  }
+  return requiredWhenMet(
+    input,
+    paths.every(
+      (path) => required(data_get(context?.data, path as string)).passes,
+    ),
+  );
+};
+
 export const nullable: RuleCallBack = (input) => {
   return {
     passes: true,
@@ -160,7 +278,7 @@ export const isBoolean: RuleCallBack = (value) => {
  * @param input - The input to check.
  * @param min_max - The minimum and maximum values, separated by a comma.
  */
-export const between: RuleCallBack = (input, min_max, type) => {
+export const between: RuleCallBack = (input, min_max, type, context) => {
   if (typeof min_max !== 'number' && typeof min_max !== 'string') {
     throwEmptyArgsException('between');
   }
@@ -176,7 +294,7 @@ export const between: RuleCallBack = (input, min_max, type) => {
   // for date
   if (type == 'date' || type == 'date-local') {
     return {
-      passes: dateBetween(input, min_max).passes,
+      passes: dateBetween(input, min_max, type, context).passes,
       value: input,
       alias: 'dateBetween',
     };
@@ -489,3 +607,47 @@ export const isArray: RuleCallBack = (input, requiredIndexes?) => {
     value: input,
   };
 };
+
+/**
+ * The ValidityState flags checked by the validity rule, customError is set by Jevalide itself
+ */
+const validityFlags: readonly string[] = [
+  'valueMissing',
+  'typeMismatch',
+  'patternMismatch',
+  'tooLong',
+  'tooShort',
+  'rangeUnderflow',
+  'rangeOverflow',
+  'stepMismatch',
+  'badInput',
+];
+
+/**
+ * Checks the ValidityState of the form element of the field, so that the HTML constraints
+ * are a rule source. Passes when the field has no form element.
+ *
+ * @param input - The input to check.
+ * @param flags - Optional. The flags to check, comma-separated, all of them by default.
+ * @example
+ * ```md
+ *  validity
+ *  validity:typeMismatch,patternMismatch
+ * ```
+ */
+export const validity: RuleCallBack = (input, flags, _type, context) => {
+  const element = context?.element as HTMLInputElement | null | undefined;
+  if (!element || typeof element.validity !== 'object') {
+    return { passes: true, value: input };
+  }
+  const names = flags
+    ? String(flags)
+        .split(',')
+        .map((flag) => flag.trim())
+    : validityFlags;
+  const state = element.validity as unknown as Record<string, boolean>;
+  return {
+    passes: !names.some((flag) => validityFlags.includes(flag) && state[flag]),
+    value: input,
+  };
+};
@@ -3,3 +3,4 @@ export * from './number';
 export * from './string';
 export * from './file';
 export * from './date';
+export * from './array';
@@ -1,14 +1,38 @@
-import { RuleCallBack } from '../contracts';
+import { Rule, RuleCallBack, ValidationState } from '../contracts';
+import { spliteParam, throwEmptyArgsException } from '../utils';
 import { CountryPhoneValidator } from './phone/country-phone-validator';
+import {
+  ParsedPhone,
+  PhoneFormat,
+  PhoneType,
+} from './phone/country-phone-validator.interface';
+import { formatPhone, isPhoneType, parsePhone } from './phone/phone-number';
+
+const phoneFormats: PhoneFormat[] = ['e164', 'international', 'national'];
+
+const phoneTypes: PhoneType[] = [
+  'mobile',
+  'landline',
+  'fixedLineOrMobile',
+  'tollFree',
+  'premium',
+  'voip',
+];
 
 /**
  * This is a callback function that validates phone number formats for different countries.
+ * A valid number is given in E.164 format, or in the format given among the parameters. The
+ * first country is the default region of the numbers in national format. The types given among
+ * the parameters restrict the accepted numbers. Without country, a number in national format
+ * can't be normalized and fails.
  *
  * @param input The phone number to validate
- * @param params Optional country codes to validate against
+ * @param params Optional country codes to validate against, the accepted types and the output format
  * @description
  * ```md
  *  required|phone:US,FR,BJ
+ *  required|phone:FR,national
+ *  required|phone:FR,mobile
  *  required|phone
  * ```
  */
@@ -19,11 +43,83 @@ export const phone: RuleCallBack = (input, params) => {
       value: input,
     };
   }
+  const options = spliteParam(params?.toString() ?? '').map(String);
+  const format =
+    options.find((option): option is PhoneFormat =>
+      phoneFormats.includes(option as PhoneFormat),
+    ) ?? 'e164';
+  const types = options.filter((option): option is PhoneType =>
+    phoneTypes.includes(option as PhoneType),
+  );
+  const countries = options.filter(
+    (option) =>
+      option &&
+      !phoneFormats.includes(option as PhoneFormat) &&
+      !phoneTypes.includes(option as PhoneType),
+  );
+  const validator = new CountryPhoneValidator(
+    input,
+    countries.length ? countries.join(',') : undefined,
+  );
+  const parsed = validator.parse();
+  if (types.length) {
+    return {
+      ...typeState(parsed, types),
+      value: parsed ? formatPhone(parsed, format) : input,
+    };
+  }
+  if (parsed) {
+    return { passes: true, value: formatPhone(parsed, format) };
+  }
+  if (!validator.validPhoneNumber()) {
+    return { passes: false, value: input };
+  }
+  // Valid globally, without the numbering plan of its country
+  const e164 = input.replace(/[\s\-.()]/g, '').replace(/^00/, '+');
+  return e164.startsWith('+')
+    ? { passes: true, value: e164 }
+    : { passes: false, value: input, alias: 'phoneRegion' as Rule };
+};
+
+/**
+ * This is a callback function that checks the type of a phone number in international format,
+ * with the patterns of its country. Use it after the phone rule to check a number in national format.
+ *
+ * @param input The phone number to check
+ * @param params The accepted types: mobile, landline, fixedLineOrMobile, tollFree, premium or voip
+ * @description
+ * ```md
+ *  required|phone:FR|phoneType:mobile
+ *  required|phoneType:mobile,voip
+ * ```
+ */
+export const phoneType: RuleCallBack = (input, params) => {
+  const types = spliteParam(params?.toString() ?? '').map(String);
+  const unknown = types.find((type) => !phoneTypes.includes(type as PhoneType));
+  if (!types.length || unknown !== undefined) {
+    throwEmptyArgsException(
+      'phoneType',
+      `The <<phoneType>> rule parameters must be among ${phoneTypes.join(', ')}`,
+    );
+  }
   return {
-    passes: new CountryPhoneValidator(
-      input,
-      params?.toString(),
-    ).validPhoneNumber(),
+    ...typeState(
+      typeof input === 'string' ? parsePhone(input) : null,
+      types as PhoneType[],
+    ),
     value: input,
   };
 };
+
+/**
+ * Check the type of a number, the message tells the expected type when there is only one
+ */
+function typeState(
+  parsed: ParsedPhone | null,
+  types: PhoneType[],
+): Omit<ValidationState, 'value'> {
+  return {
+    passes: parsed !== null && isPhoneType(parsed, types),
+    alias: (types.length === 1 ? `${types[0]}Phone` : 'phoneType') as Rule,
+  };
+}
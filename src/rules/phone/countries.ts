@@ -0,0 +1,1167 @@
+import { PhoneCountry } from './country-phone-validator.interface';
+
+/**
+ * The phone numbering plan of every ISO 3166 country, keyed by country code. The lengths are
+ * the lengths of the national significant number, without the calling code nor the national
+ * prefix. The patterns of the number types cover the main numbering plans, see the phone rule
+ * in docs/rules.md, register the others with registerCountry().
+ */
+export const phoneCountries: Record<string, PhoneCountry> = {
+  // Andorra
+  AD: { callingCode: '376', lengths: [6, 8, 9] },
+  // United Arab Emirates
+  AE: {
+    callingCode: '971',
+    nationalPrefix: '0',
+    lengths: [8, 9],
+    types: {
+      mobile: /^5[024-68]\d{7}$/,
+      landline: /^[2-4679]\d{7}$/,
+      tollFree: /^800\d{5,6}$/,
+      premium: /^900\d{5,6}$/,
+    },
+  },
+  // Afghanistan
+  AF: { callingCode: '93', nationalPrefix: '0', lengths: [9] },
+  // Antigua & Barbuda
+  AG: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Anguilla
+  AI: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Albania
+  AL: { callingCode: '355', nationalPrefix: '0', lengths: [8, 9] },
+  // Armenia
+  AM: { callingCode: '374', nationalPrefix: '0', lengths: [8] },
+  // Angola
+  AO: {
+    callingCode: '244',
+    lengths: [9],
+    pattern: /^[29][1-9]\d{7}$/,
+    types: {
+      mobile: /^9[1-9]\d{7}$/,
+      landline: /^2\d{8}$/,
+    },
+  },
+  // Antarctica
+  AQ: { callingCode: '672', lengths: [6] },
+  // Argentina
+  AR: { callingCode: '54', nationalPrefix: '0', lengths: [10, 11] },
+  // Samoa (American)
+  AS: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Austria
+  AT: {
+    callingCode: '43',
+    nationalPrefix: '0',
+    lengths: [4, 5, 6, 7, 8, 9, 10, 11, 12, 13],
+  },
+  // Australia
+  AU: {
+    callingCode: '61',
+    nationalPrefix: '0',
+    lengths: [9],
+    main: true,
+    types: { mobile: /^4\d{8}$/, landline: /^[2378]\d{8}$/ },
+  },
+  // Aruba
+  AW: { callingCode: '297', lengths: [7] },
+  // Åland Islands
+  AX: {
+    callingCode: '358',
+    nationalPrefix: '0',
+    lengths: [5, 6, 7, 8, 9, 10, 11, 12],
+  },
+  // Azerbaijan
+  AZ: { callingCode: '994', nationalPrefix: '0', lengths: [9] },
+  // Bosnia & Herzegovina
+  BA: { callingCode: '387', nationalPrefix: '0', lengths: [8, 9] },
+  // Barbados
+  BB: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Bangladesh
+  BD: {
+    callingCode: '880',
+    nationalPrefix: '0',
+    lengths: [6, 7, 8, 9, 10],
+    types: { mobile: /^1[3-9]\d{8}$/, landline: /^[2-9]\d{5,9}$/ },
+  },
+  // Belgium
+  BE: {
+    callingCode: '32',
+    nationalPrefix: '0',
+    lengths: [8, 9],
+    types: {
+      mobile: /^4[5-9]\d{7}$/,
+      landline: /^[1-9]\d{7}$/,
+      tollFree: /^800\d{5}$/,
+      premium: /^90\d{6}$/,
+    },
+    formats: {
+      national: ['0### ## ## ##', '0# ### ## ##'],
+      international: ['### ## ## ##', '# ### ## ##'],
+    },
+  },
+  // Burkina Faso
+  BF: {
+    callingCode: '226',
+    lengths: [8],
+    types: {
+      mobile: /^[5-7]\d{7}$/,
+      landline: /^2[05]\d{6}$/,
+    },
+  },
+  // Bulgaria
+  BG: { callingCode: '359', nationalPrefix: '0', lengths: [6, 7, 8, 9] },
+  // Bahrain
+  BH: { callingCode: '973', lengths: [8] },
+  // Burundi
+  BI: { callingCode: '257', lengths: [8] },
+  // Benin
+  BJ: {
+    callingCode: '229',
+    lengths: [8, 10],
+    types: {
+      mobile: /^(?:01)?[4-9]\d{7}$/,
+      landline: /^(?:01)?2\d{7}$/,
+    },
+  },
+  // St Barthelemy
+  BL: { callingCode: '590', nationalPrefix: '0', lengths: [9] },
+  // Bermuda
+  BM: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Brunei
+  BN: { callingCode: '673', lengths: [7] },
+  // Bolivia
+  BO: { callingCode: '591', nationalPrefix: '0', lengths: [8] },
+  // Caribbean NL
+  BQ: { callingCode: '599', lengths: [7] },
+  // Brazil
+  BR: {
+    callingCode: '55',
+    nationalPrefix: '0',
+    lengths: [10, 11],
+    types: {
+      mobile: /^[1-9]{2}9\d{8}$/,
+      landline: /^[1-9]{2}[2-5]\d{7}$/,
+      tollFree: /^800\d{6,7}$/,
+      premium: /^[359]00\d{6,7}$/,
+    },
+  },
+  // Bahamas
+  BS: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Bhutan
+  BT: { callingCode: '975', lengths: [7, 8] },
+  // Bouvet Island
+  BV: { callingCode: '47', lengths: [8] },
+  // Botswana
+  BW: { callingCode: '267', lengths: [7, 8] },
+  // Belarus
+  BY: { callingCode: '375', nationalPrefix: '8', lengths: [9] },
+  // Belize
+  BZ: { callingCode: '501', lengths: [7] },
+  // Canada
+  CA: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+    pattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+    // The mobile and the landline numbers share the same ranges
+    types: {
+      tollFree: /^8(?:00|33|44|55|66|77|88)[2-9]\d{6}$/,
+      premium: /^900[2-9]\d{6}$/,
+    },
+    formats: {
+      national: ['(###) ###-####'],
+      international: ['###-###-####'],
+    },
+  },
+  // Cocos (Keeling) Islands
+  CC: { callingCode: '61', nationalPrefix: '0', lengths: [9] },
+  // Congo (Dem. Rep.)
+  CD: { callingCode: '243', nationalPrefix: '0', lengths: [9] },
+  // Central African Rep.
+  CF: { callingCode: '236', lengths: [8] },
+  // Congo (Rep.)
+  CG: { callingCode: '242', lengths: [9] },
+  // Switzerland
+  CH: {
+    callingCode: '41',
+    nationalPrefix: '0',
+    lengths: [9],
+    types: {
+      mobile: /^7[5-9]\d{7}$/,
+      landline: /^[2-6]\d{8}$/,
+      tollFree: /^800\d{6}$/,
+      premium: /^90\d{7}$/,
+    },
+    formats: {
+      national: ['0## ### ## ##'],
+      international: ['## ### ## ##'],
+    },
+  },
+  // Côte d'Ivoire
+  CI: {
+    callingCode: '225',
+    lengths: [10],
+    types: {
+      mobile: /^0[157]\d{8}$/,
+      landline: /^2[157]\d{8}$/,
+    },
+  },
+  // Cook Islands
+  CK: { callingCode: '682', lengths: [5] },
+  // Chile
+  CL: { callingCode: '56', lengths: [9] },
+  // Cameroon
+  CM: {
+    callingCode: '237',
+    lengths: [8, 9],
+    types: {
+      mobile: /^6[5-9]\d{7}$/,
+      landline: /^2[23]\d{7}$/,
+    },
+  },
+  // China
+  CN: {
+    callingCode: '86',
+    nationalPrefix: '0',
+    lengths: [10, 11],
+    types: {
+      mobile: /^1[3-9]\d{9}$/,
+      landline: /^(?:(?:10|2\d)\d{8}|[3-9]\d{9,10})$/,
+      tollFree: /^800\d{7}$/,
+    },
+  },
+  // Colombia
+  CO: {
+    callingCode: '57',
+    nationalPrefix: '0',
+    lengths: [10],
+    types: {
+      mobile: /^3\d{9}$/,
+      landline: /^60\d{8}$/,
+      tollFree: /^1800\d{6}$/,
+    },
+  },
+  // Costa Rica
+  CR: { callingCode: '506', lengths: [8] },
+  // Cuba
+  CU: { callingCode: '53', nationalPrefix: '0', lengths: [6, 7, 8] },
+  // Cape Verde
+  CV: { callingCode: '238', lengths: [7] },
+  // Curaçao
+  CW: {
+    callingCode: '599',
+    lengths: [7, 8],
+    main: true,
+  },
+  // Christmas Island
+  CX: { callingCode: '61', nationalPrefix: '0', lengths: [9] },
+  // Cyprus
+  CY: { callingCode: '357', lengths: [8] },
+  // Czech Republic
+  CZ: {
+    callingCode: '420',
+    lengths: [9],
+    types: {
+      mobile: /^(?:60[1-8]|7\d\d)\d{6}$/,
+      landline: /^[2-5]\d{8}$/,
+      tollFree: /^800\d{6}$/,
+      premium: /^90[06]\d{6}$/,
+    },
+  },
+  // Germany
+  DE: {
+    callingCode: '49',
+    nationalPrefix: '0',
+    lengths: [6, 7, 8, 9, 10, 11, 12, 13],
+    types: {
+      mobile: /^1[5-7]\d{8,9}$/,
+      landline: /^[2-9]\d{5,11}$/,
+      tollFree: /^800\d{7,8}$/,
+      premium: /^900\d{7}$/,
+    },
+  },
+  // Djibouti
+  DJ: { callingCode: '253', lengths: [8] },
+  // Denmark
+  DK: { callingCode: '45', lengths: [8] },
+  // Dominica
+  DM: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Dominican Republic
+  DO: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Algeria
+  DZ: {
+    callingCode: '213',
+    nationalPrefix: '0',
+    lengths: [8, 9],
+    types: { mobile: /^[5-7]\d{8}$/, landline: /^[2-49]\d{7}$/ },
+  },
+  // Ecuador
+  EC: { callingCode: '593', nationalPrefix: '0', lengths: [8, 9] },
+  // Estonia
+  EE: { callingCode: '372', lengths: [7, 8] },
+  // Egypt
+  EG: {
+    callingCode: '20',
+    nationalPrefix: '0',
+    lengths: [8, 9, 10],
+    types: { mobile: /^1[0125]\d{8}$/, landline: /^[2-9]\d{7,8}$/ },
+  },
+  // Western Sahara
+  EH: { callingCode: '212', nationalPrefix: '0', lengths: [9] },
+  // Eritrea
+  ER: { callingCode: '291', nationalPrefix: '0', lengths: [7] },
+  // Spain
+  ES: {
+    callingCode: '34',
+    lengths: [9],
+    types: {
+      mobile: /^[67]\d{8}$/,
+      landline: /^[89][1-8]\d{7}$/,
+      tollFree: /^900\d{6}$/,
+      premium: /^80[3-7]\d{6}$/,
+    },
+    formats: {
+      national: ['### ## ## ##'],
+      international: ['### ## ## ##'],
+    },
+  },
+  // Ethiopia
+  ET: { callingCode: '251', nationalPrefix: '0', lengths: [9] },
+  // Finland
+  FI: {
+    callingCode: '358',
+    nationalPrefix: '0',
+    lengths: [5, 6, 7, 8, 9, 10, 11, 12],
+    main: true,
+  },
+  // Fiji
+  FJ: { callingCode: '679', lengths: [7] },
+  // Falkland Islands
+  FK: {
+    callingCode: '500',
+    lengths: [5],
+    main: true,
+  },
+  // Micronesia
+  FM: { callingCode: '691', lengths: [7] },
+  // Faroe Islands
+  FO: { callingCode: '298', lengths: [6] },
+  // France
+  FR: {
+    callingCode: '33',
+    nationalPrefix: '0',
+    lengths: [9],
+    pattern: /^[1-9]\d{8}$/,
+    types: {
+      mobile: /^[67]\d{8}$/,
+      landline: /^[1-5]\d{8}$/,
+      tollFree: /^80\d{7}$/,
+      premium: /^8[1-9]\d{7}$/,
+      voip: /^9\d{8}$/,
+    },
+    formats: {
+      national: ['0# ## ## ## ##'],
+      international: ['# ## ## ## ##'],
+    },
+  },
+  // Gabon
+  GA: { callingCode: '241', lengths: [7, 8] },
+  // Britain (UK)
+  GB: {
+    callingCode: '44',
+    nationalPrefix: '0',
+    lengths: [9, 10],
+    types: {
+      mobile: /^7[1-57-9]\d{8}$/,
+      landline: /^[123]\d{8,9}$/,
+      tollFree: /^80\d{7,8}$/,
+      premium: /^9\d{9}$/,
+      voip: /^56\d{8}$/,
+    },
+    main: true,
+    formats: {
+      national: [
+        { leadingDigits: /^2/, template: '0## #### ####' },
+        '0#### ######',
+      ],
+      international: [
+        { leadingDigits: /^2/, template: '## #### ####' },
+        '#### ######',
+      ],
+    },
+  },
+  // Grenada
+  GD: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Georgia
+  GE: { callingCode: '995', nationalPrefix: '0', lengths: [9] },
+  // French Guiana
+  GF: { callingCode: '594', nationalPrefix: '0', lengths: [9] },
+  // Guernsey
+  GG: { callingCode: '44', nationalPrefix: '0', lengths: [10] },
+  // Ghana
+  GH: {
+    callingCode: '233',
+    nationalPrefix: '0',
+    lengths: [9],
+    types: { mobile: /^(?:2[0346-8]|5\d)\d{7}$/, landline: /^3\d{8}$/ },
+  },
+  // Gibraltar
+  GI: { callingCode: '350', lengths: [8] },
+  // Greenland
+  GL: { callingCode: '299', lengths: [6] },
+  // Gambia
+  GM: { callingCode: '220', lengths: [7] },
+  // Guinea
+  GN: { callingCode: '224', lengths: [8, 9] },
+  // Guadeloupe
+  GP: {
+    callingCode: '590',
+    nationalPrefix: '0',
+    lengths: [9],
+    main: true,
+  },
+  // Equatorial Guinea
+  GQ: { callingCode: '240', lengths: [9] },
+  // Greece
+  GR: {
+    callingCode: '30',
+    lengths: [10],
+    types: {
+      mobile: /^69\d{8}$/,
+      landline: /^2\d{9}$/,
+      tollFree: /^800\d{7}$/,
+      premium: /^90\d{8}$/,
+    },
+  },
+  // South Georgia & the South Sandwich Islands
+  GS: { callingCode: '500', lengths: [5] },
+  // Guatemala
+  GT: { callingCode: '502', lengths: [8] },
+  // Guam
+  GU: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Guinea-Bissau
+  GW: { callingCode: '245', lengths: [7, 8, 9] },
+  // Guyana
+  GY: { callingCode: '592', lengths: [7] },
+  // Hong Kong
+  HK: { callingCode: '852', lengths: [8] },
+  // Heard Island & McDonald Islands
+  HM: { callingCode: '672', lengths: [6] },
+  // Honduras
+  HN: { callingCode: '504', lengths: [8] },
+  // Croatia
+  HR: { callingCode: '385', nationalPrefix: '0', lengths: [8, 9] },
+  // Haiti
+  HT: { callingCode: '509', lengths: [8] },
+  // Hungary
+  HU: { callingCode: '36', nationalPrefix: '06', lengths: [8, 9] },
+  // Indonesia
+  ID: {
+    callingCode: '62',
+    nationalPrefix: '0',
+    lengths: [8, 9, 10, 11, 12],
+    types: {
+      mobile: /^8\d{8,11}$/,
+      landline: /^[2-7]\d{6,10}$/,
+      tollFree: /^800\d{5,7}$/,
+    },
+  },
+  // Ireland
+  IE: {
+    callingCode: '353',
+    nationalPrefix: '0',
+    lengths: [7, 8, 9],
+    types: { mobile: /^8[35-9]\d{7}$/, landline: /^[124-79]\d{6,8}$/ },
+  },
+  // Israel
+  IL: {
+    callingCode: '972',
+    nationalPrefix: '0',
+    lengths: [8, 9],
+    types: { mobile: /^5\d{8}$/, landline: /^[2-489]\d{7}$/, voip: /^7\d{8}$/ },
+  },
+  // Isle of Man
+  IM: { callingCode: '44', nationalPrefix: '0', lengths: [10] },
+  // India
+  IN: {
+    callingCode: '91',
+    nationalPrefix: '0',
+    lengths: [10],
+    types: {
+      mobile: /^[6-9]\d{9}$/,
+      landline: /^[1-5]\d{9}$/,
+      tollFree: /^1800\d{6}$/,
+    },
+  },
+  // British Indian Ocean Territory
+  IO: { callingCode: '246', lengths: [7] },
+  // Iraq
+  IQ: { callingCode: '964', nationalPrefix: '0', lengths: [8, 9, 10] },
+  // Iran
+  IR: { callingCode: '98', nationalPrefix: '0', lengths: [10] },
+  // Iceland
+  IS: { callingCode: '354', lengths: [7, 9] },
+  // Italy
+  IT: {
+    callingCode: '39',
+    lengths: [6, 7, 8, 9, 10, 11],
+    main: true,
+    types: {
+      mobile: /^3\d{8,9}$/,
+      landline: /^0\d{5,10}$/,
+      tollFree: /^80[03]\d{3,6}$/,
+      premium: /^89\d{4,7}$/,
+    },
+  },
+  // Jersey
+  JE: { callingCode: '44', nationalPrefix: '0', lengths: [10] },
+  // Jamaica
+  JM: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Jordan
+  JO: { callingCode: '962', nationalPrefix: '0', lengths: [8, 9] },
+  // Japan
+  JP: {
+    callingCode: '81',
+    nationalPrefix: '0',
+    lengths: [9, 10],
+    types: {
+      mobile: /^[7-9]0\d{8}$/,
+      landline: /^[1-9]\d{8}$/,
+      tollFree: /^(?:120\d{6}|800\d{7})$/,
+      premium: /^990\d{6}$/,
+      voip: /^50\d{8}$/,
+    },
+  },
+  // Kenya
+  KE: {
+    callingCode: '254',
+    nationalPrefix: '0',
+    lengths: [9],
+    types: { mobile: /^(?:1[01]|7\d)\d{7}$/, landline: /^[2-6]\d{8}$/ },
+  },
+  // Kyrgyzstan
+  KG: { callingCode: '996', nationalPrefix: '0', lengths: [9] },
+  // Cambodia
+  KH: { callingCode: '855', nationalPrefix: '0', lengths: [8, 9] },
+  // Kiribati
+  KI: { callingCode: '686', lengths: [5, 8] },
+  // Comoros
+  KM: { callingCode: '269', lengths: [7] },
+  // St Kitts & Nevis
+  KN: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Korea (North)
+  KP: { callingCode: '850', nationalPrefix: '0', lengths: [8, 10] },
+  // Korea (South)
+  KR: {
+    callingCode: '82',
+    nationalPrefix: '0',
+    lengths: [8, 9, 10],
+    types: {
+      mobile: /^1[016-9]\d{7,8}$/,
+      landline: /^(?:2\d{7,8}|[3-6][1-5]\d{6,7})$/,
+      tollFree: /^80\d{7}$/,
+    },
+  },
+  // Kuwait
+  KW: { callingCode: '965', lengths: [8] },
+  // Cayman Islands
+  KY: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Kazakhstan
+  KZ: { callingCode: '7', nationalPrefix: '8', lengths: [10] },
+  // Laos
+  LA: { callingCode: '856', nationalPrefix: '0', lengths: [8, 9, 10] },
+  // Lebanon
+  LB: { callingCode: '961', nationalPrefix: '0', lengths: [7, 8] },
+  // St Lucia
+  LC: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Liechtenstein
+  LI: { callingCode: '423', lengths: [7] },
+  // Sri Lanka
+  LK: { callingCode: '94', nationalPrefix: '0', lengths: [9] },
+  // Liberia
+  LR: { callingCode: '231', nationalPrefix: '0', lengths: [7, 8, 9] },
+  // Lesotho
+  LS: { callingCode: '266', lengths: [8] },
+  // Lithuania
+  LT: { callingCode: '370', nationalPrefix: '8', lengths: [8] },
+  // Luxembourg
+  LU: { callingCode: '352', lengths: [4, 5, 6, 7, 8, 9, 10, 11] },
+  // Latvia
+  LV: { callingCode: '371', lengths: [8] },
+  // Libya
+  LY: { callingCode: '218', nationalPrefix: '0', lengths: [9] },
+  // Morocco
+  MA: {
+    callingCode: '212',
+    nationalPrefix: '0',
+    lengths: [9],
+    main: true,
+    types: {
+      mobile: /^[67]\d{8}$/,
+      landline: /^5\d{8}$/,
+      tollFree: /^80\d{7}$/,
+    },
+  },
+  // Monaco
+  MC: { callingCode: '377', nationalPrefix: '0', lengths: [8, 9] },
+  // Moldova
+  MD: { callingCode: '373', nationalPrefix: '0', lengths: [8] },
+  // Montenegro
+  ME: { callingCode: '382', nationalPrefix: '0', lengths: [8] },
+  // St Martin (French)
+  MF: { callingCode: '590', nationalPrefix: '0', lengths: [9] },
+  // Madagascar
+  MG: { callingCode: '261', nationalPrefix: '0', lengths: [9] },
+  // Marshall Islands
+  MH: { callingCode: '692', lengths: [7] },
+  // North Macedonia
+  MK: { callingCode: '389', nationalPrefix: '0', lengths: [8] },
+  // Mali
+  ML: { callingCode: '223', lengths: [8] },
+  // Myanmar (Burma)
+  MM: { callingCode: '95', nationalPrefix: '0', lengths: [7, 8, 9, 10] },
+  // Mongolia
+  MN: { callingCode: '976', nationalPrefix: '0', lengths: [8] },
+  // Macau
+  MO: { callingCode: '853', lengths: [8] },
+  // Northern Mariana Islands
+  MP: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Martinique
+  MQ: { callingCode: '596', nationalPrefix: '0', lengths: [9] },
+  // Mauritania
+  MR: { callingCode: '222', lengths: [8] },
+  // Montserrat
+  MS: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Malta
+  MT: { callingCode: '356', lengths: [8] },
+  // Mauritius
+  MU: { callingCode: '230', lengths: [7, 8] },
+  // Maldives
+  MV: { callingCode: '960', lengths: [7] },
+  // Malawi
+  MW: { callingCode: '265', nationalPrefix: '0', lengths: [7, 9] },
+  // Mexico
+  MX: {
+    callingCode: '52',
+    lengths: [10],
+    // The mobile and the landline numbers share the same ranges
+    types: { tollFree: /^800\d{7}$/, premium: /^900\d{7}$/ },
+  },
+  // Malaysia
+  MY: {
+    callingCode: '60',
+    nationalPrefix: '0',
+    lengths: [8, 9, 10],
+    types: {
+      mobile: /^1\d{8,9}$/,
+      landline: /^[3-9]\d{7,8}$/,
+      tollFree: /^1800\d{6}$/,
+    },
+  },
+  // Mozambique
+  MZ: { callingCode: '258', lengths: [8, 9] },
+  // Namibia
+  NA: { callingCode: '264', nationalPrefix: '0', lengths: [8, 9] },
+  // New Caledonia
+  NC: { callingCode: '687', lengths: [6] },
+  // Niger
+  NE: {
+    callingCode: '227',
+    lengths: [8],
+    types: {
+      mobile: /^[89]\d{7}$/,
+      landline: /^2[01]\d{6}$/,
+    },
+  },
+  // Norfolk Island
+  NF: {
+    callingCode: '672',
+    lengths: [6],
+    main: true,
+  },
+  // Nigeria
+  NG: {
+    callingCode: '234',
+    nationalPrefix: '0',
+    lengths: [8, 10],
+    types: { mobile: /^(?:70|8[01]|9[01])\d{8}$/, landline: /^[1-6]\d{7}$/ },
+  },
+  // Nicaragua
+  NI: { callingCode: '505', lengths: [8] },
+  // Netherlands
+  NL: {
+    callingCode: '31',
+    nationalPrefix: '0',
+    lengths: [9],
+    types: {
+      mobile: /^6[1-58]\d{7}$/,
+      landline: /^[1-57]\d{8}$/,
+      voip: /^85\d{7}$/,
+    },
+  },
+  // Norway
+  NO: {
+    callingCode: '47',
+    lengths: [8],
+    main: true,
+    types: {
+      mobile: /^[49]\d{7}$/,
+      landline: /^[2-35-7]\d{7}$/,
+      tollFree: /^80[01]\d{5}$/,
+      premium: /^82\d{6}$/,
+    },
+  },
+  // Nepal
+  NP: { callingCode: '977', nationalPrefix: '0', lengths: [8, 10] },
+  // Nauru
+  NR: { callingCode: '674', lengths: [7] },
+  // Niue
+  NU: { callingCode: '683', lengths: [4, 7] },
+  // New Zealand
+  NZ: {
+    callingCode: '64',
+    nationalPrefix: '0',
+    lengths: [8, 9, 10],
+    main: true,
+    types: {
+      mobile: /^2\d{7,9}$/,
+      landline: /^[346-9]\d{7}$/,
+      tollFree: /^800\d{5,7}$/,
+      premium: /^900\d{5,7}$/,
+    },
+  },
+  // Oman
+  OM: { callingCode: '968', lengths: [8] },
+  // Panama
+  PA: { callingCode: '507', lengths: [7, 8] },
+  // Peru
+  PE: {
+    callingCode: '51',
+    nationalPrefix: '0',
+    lengths: [8, 9],
+    types: {
+      mobile: /^9\d{8}$/,
+      landline: /^[1-8]\d{7}$/,
+      tollFree: /^800\d{5}$/,
+    },
+  },
+  // French Polynesia
+  PF: { callingCode: '689', lengths: [8] },
+  // Papua New Guinea
+  PG: { callingCode: '675', lengths: [7, 8] },
+  // Philippines
+  PH: {
+    callingCode: '63',
+    nationalPrefix: '0',
+    lengths: [8, 9, 10],
+    types: { mobile: /^9\d{9}$/, landline: /^[2-8]\d{7,8}$/ },
+  },
+  // Pakistan
+  PK: {
+    callingCode: '92',
+    nationalPrefix: '0',
+    lengths: [9, 10],
+    types: { mobile: /^3\d{9}$/, landline: /^[24-9]\d{8,9}$/ },
+  },
+  // Poland
+  PL: {
+    callingCode: '48',
+    lengths: [9],
+    types: {
+      mobile: /^(?:45|5[0137]|6[069]|7[2389]|88)\d{7}$/,
+      landline:
+        /^(?:1[2-8]|2[2-69]|3[2-4]|4[1-468]|5[24-689]|6[1-3578]|7[14-7]|8[1-79]|9[145])\d{7}$/,
+      tollFree: /^800\d{6}$/,
+      premium: /^70\d{7}$/,
+    },
+  },
+  // St Pierre & Miquelon
+  PM: { callingCode: '508', nationalPrefix: '0', lengths: [6] },
+  // Pitcairn
+  PN: { callingCode: '64', lengths: [9] },
+  // Puerto Rico
+  PR: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Palestine
+  PS: { callingCode: '970', nationalPrefix: '0', lengths: [8, 9] },
+  // Portugal
+  PT: {
+    callingCode: '351',
+    lengths: [9],
+    types: {
+      mobile: /^9[1236]\d{7}$/,
+      landline: /^2\d{8}$/,
+      tollFree: /^800\d{6}$/,
+    },
+  },
+  // Palau
+  PW: { callingCode: '680', lengths: [7] },
+  // Paraguay
+  PY: { callingCode: '595', nationalPrefix: '0', lengths: [9] },
+  // Qatar
+  QA: { callingCode: '974', lengths: [8] },
+  // Réunion
+  RE: {
+    callingCode: '262',
+    nationalPrefix: '0',
+    lengths: [9],
+    main: true,
+  },
+  // Romania
+  RO: {
+    callingCode: '40',
+    nationalPrefix: '0',
+    lengths: [9],
+    types: {
+      mobile: /^7\d{8}$/,
+      landline: /^[23]\d{8}$/,
+      tollFree: /^800\d{6}$/,
+      premium: /^90\d{7}$/,
+    },
+  },
+  // Serbia
+  RS: { callingCode: '381', nationalPrefix: '0', lengths: [8, 9, 10] },
+  // Russia
+  RU: {
+    callingCode: '7',
+    nationalPrefix: '8',
+    lengths: [10],
+    main: true,
+    types: {
+      mobile: /^9\d{9}$/,
+      landline: /^[348]\d{9}$/,
+      tollFree: /^80[04]\d{7}$/,
+      premium: /^80[39]\d{7}$/,
+    },
+  },
+  // Rwanda
+  RW: { callingCode: '250', nationalPrefix: '0', lengths: [9] },
+  // Saudi Arabia
+  SA: {
+    callingCode: '966',
+    nationalPrefix: '0',
+    lengths: [9],
+    types: { mobile: /^5\d{8}$/, landline: /^1\d{8}$/ },
+  },
+  // Solomon Islands
+  SB: { callingCode: '677', lengths: [5, 7] },
+  // Seychelles
+  SC: { callingCode: '248', lengths: [7] },
+  // Sudan
+  SD: { callingCode: '249', nationalPrefix: '0', lengths: [9] },
+  // Sweden
+  SE: { callingCode: '46', nationalPrefix: '0', lengths: [7, 8, 9] },
+  // Singapore
+  SG: {
+    callingCode: '65',
+    lengths: [8],
+    types: { mobile: /^[89]\d{7}$/, landline: /^6\d{7}$/ },
+  },
+  // St Helena
+  SH: { callingCode: '290', lengths: [4, 5] },
+  // Slovenia
+  SI: { callingCode: '386', nationalPrefix: '0', lengths: [8] },
+  // Svalbard & Jan Mayen
+  SJ: { callingCode: '47', lengths: [8] },
+  // Slovakia
+  SK: { callingCode: '421', nationalPrefix: '0', lengths: [9] },
+  // Sierra Leone
+  SL: { callingCode: '232', nationalPrefix: '0', lengths: [8] },
+  // San Marino
+  SM: { callingCode: '378', lengths: [6, 8, 10] },
+  // Senegal
+  SN: {
+    callingCode: '221',
+    lengths: [9],
+    types: {
+      mobile: /^7[05-8]\d{7}$/,
+      landline: /^3[03]\d{7}$/,
+    },
+  },
+  // Somalia
+  SO: { callingCode: '252', nationalPrefix: '0', lengths: [7, 8, 9] },
+  // Suriname
+  SR: { callingCode: '597', lengths: [6, 7] },
+  // South Sudan
+  SS: { callingCode: '211', nationalPrefix: '0', lengths: [9] },
+  // Sao Tome & Principe
+  ST: { callingCode: '239', lengths: [7] },
+  // El Salvador
+  SV: { callingCode: '503', lengths: [8] },
+  // St Maarten (Dutch)
+  SX: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Syria
+  SY: { callingCode: '963', nationalPrefix: '0', lengths: [8, 9] },
+  // Eswatini (Swaziland)
+  SZ: { callingCode: '268', lengths: [8] },
+  // Turks & Caicos Is
+  TC: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Chad
+  TD: {
+    callingCode: '235',
+    lengths: [8],
+    types: {
+      mobile: /^[679]\d{7}$/,
+      landline: /^22\d{6}$/,
+    },
+  },
+  // French S. Terr.
+  TF: { callingCode: '262', nationalPrefix: '0', lengths: [9] },
+  // Togo
+  TG: {
+    callingCode: '228',
+    lengths: [8],
+    types: {
+      mobile: /^[79]\d{7}$/,
+      landline: /^2[2-7]\d{6}$/,
+    },
+  },
+  // Thailand
+  TH: {
+    callingCode: '66',
+    nationalPrefix: '0',
+    lengths: [8, 9],
+    types: { mobile: /^[689]\d{8}$/, landline: /^[2-57]\d{7}$/ },
+  },
+  // Tajikistan
+  TJ: { callingCode: '992', lengths: [9] },
+  // Tokelau
+  TK: { callingCode: '690', lengths: [4, 7] },
+  // East Timor
+  TL: { callingCode: '670', lengths: [7, 8] },
+  // Turkmenistan
+  TM: { callingCode: '993', nationalPrefix: '8', lengths: [8] },
+  // Tunisia
+  TN: {
+    callingCode: '216',
+    lengths: [8],
+    types: {
+      mobile: /^[2459]\d{7}$/,
+      landline: /^[37]\d{7}$/,
+      tollFree: /^80\d{6}$/,
+      premium: /^88\d{6}$/,
+    },
+  },
+  // Tonga
+  TO: { callingCode: '676', lengths: [5, 7] },
+  // Turkey
+  TR: {
+    callingCode: '90',
+    nationalPrefix: '0',
+    lengths: [10],
+    types: {
+      mobile: /^5\d{9}$/,
+      landline: /^[2-4]\d{9}$/,
+      tollFree: /^800\d{7}$/,
+      premium: /^900\d{7}$/,
+    },
+  },
+  // Trinidad & Tobago
+  TT: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Tuvalu
+  TV: { callingCode: '688', lengths: [5, 6, 7] },
+  // Taiwan
+  TW: { callingCode: '886', nationalPrefix: '0', lengths: [8, 9] },
+  // Tanzania
+  TZ: { callingCode: '255', nationalPrefix: '0', lengths: [9] },
+  // Ukraine
+  UA: {
+    callingCode: '380',
+    nationalPrefix: '0',
+    lengths: [9],
+    types: {
+      mobile: /^(?:39|50|6[36-8]|73|9\d)\d{7}$/,
+      landline: /^(?:3[1-8]|4[13-8]|5[1-7]|6[12459])\d{7}$/,
+      tollFree: /^800\d{6}$/,
+      premium: /^900\d{6}$/,
+    },
+  },
+  // Uganda
+  UG: { callingCode: '256', nationalPrefix: '0', lengths: [9] },
+  // US minor outlying islands
+  UM: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // United States
+  US: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+    pattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+    // The mobile and the landline numbers share the same ranges
+    types: {
+      tollFree: /^8(?:00|33|44|55|66|77|88)[2-9]\d{6}$/,
+      premium: /^900[2-9]\d{6}$/,
+    },
+    main: true,
+    formats: {
+      national: ['(###) ###-####'],
+      international: ['###-###-####'],
+    },
+  },
+  // Uruguay
+  UY: { callingCode: '598', nationalPrefix: '0', lengths: [8] },
+  // Uzbekistan
+  UZ: { callingCode: '998', lengths: [9] },
+  // Vatican City
+  VA: { callingCode: '39', lengths: [6, 7, 8, 9, 10, 11] },
+  // St Vincent
+  VC: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Venezuela
+  VE: { callingCode: '58', nationalPrefix: '0', lengths: [10] },
+  // Virgin Islands (UK)
+  VG: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Virgin Islands (US)
+  VI: {
+    callingCode: '1',
+    nationalPrefix: '1',
+    nationalPrefixOptional: true,
+    lengths: [10],
+  },
+  // Vietnam
+  VN: {
+    callingCode: '84',
+    nationalPrefix: '0',
+    lengths: [9, 10],
+    types: { mobile: /^[35789]\d{8}$/, landline: /^2\d{9}$/ },
+  },
+  // Vanuatu
+  VU: { callingCode: '678', lengths: [5, 7] },
+  // Wallis & Futuna
+  WF: { callingCode: '681', lengths: [6] },
+  // Samoa (western)
+  WS: { callingCode: '685', lengths: [5, 6, 7] },
+  // Yemen
+  YE: { callingCode: '967', nationalPrefix: '0', lengths: [7, 8, 9] },
+  // Mayotte
+  YT: { callingCode: '262', nationalPrefix: '0', lengths: [9] },
+  // South Africa
+  ZA: {
+    callingCode: '27',
+    nationalPrefix: '0',
+    lengths: [9],
+    types: {
+      mobile: /^(?:6[0-5]|7[0-46-9]|8[1-4])\d{7}$/,
+      landline: /^(?:1[0-8]|2[1-478]|3[1-69]|4\d|5[1346-8])\d{7}$/,
+      tollFree: /^80\d{7}$/,
+      premium: /^86\d{7}$/,
+    },
+  },
+  // Zambia
+  ZM: { callingCode: '260', nationalPrefix: '0', lengths: [9] },
+  // Zimbabwe
+  ZW: { callingCode: '263', nationalPrefix: '0', lengths: [5, 6, 7, 8, 9, 10] },
+};
@@ -1 +1,102 @@
 export interface CountryPhoneValidatorInterface {}
+
+/**
+ * The types of phone numbers told apart by the patterns of a country. A `fixedLineOrMobile`
+ * number is a mobile or a landline number that the patterns of its country don't tell apart.
+ */
+export type PhoneType =
+  | 'mobile'
+  | 'landline'
+  | 'fixedLineOrMobile'
+  | 'tollFree'
+  | 'premium'
+  | 'voip';
+
+/**
+ * The phone numbering plan of a country
+ */
+export type PhoneCountry = {
+  /**
+   * The international calling code, without + nor 00, e.g. `33`
+   */
+  callingCode: string;
+  /**
+   * The prefix of the numbers dialed within the country, e.g. `0` in France
+   */
+  nationalPrefix?: string;
+  /**
+   * The numbers in national format can be dialed without the national prefix, e.g. `1` in the
+   * United States
+   */
+  nationalPrefixOptional?: boolean;
+  /**
+   * The possible lengths of the national significant number
+   */
+  lengths: number[];
+  /**
+   * The pattern of the valid national significant numbers, any number of the right length is
+   * valid without it
+   */
+  pattern?: RegExp;
+  /**
+   * The pattern of the national significant numbers of each type. A number matching both the
+   * mobile and the landline patterns, or neither of them, is `fixedLineOrMobile`.
+   */
+  types?: Partial<Record<Exclude<PhoneType, 'fixedLineOrMobile'>, RegExp>>;
+  /**
+   * The country given to the numbers of a calling code shared by several countries, e.g. US for `1`
+   */
+  main?: boolean;
+  /**
+   * The templates of the displayed numbers, a `#` for each digit of the national significant
+   * number. The first template having as many digits as the number, and whose leading digits
+   * match it, is used. The national templates contain the national prefix, e.g. `0# ## ## ## ##`.
+   * A number without template is displayed in E.164 format.
+   */
+  formats?: {
+    national?: PhoneTemplate[];
+    international?: PhoneTemplate[];
+  };
+};
+
+/**
+ * The template of a displayed number, e.g. `0# ## ## ## ##`, or the template of the numbers whose
+ * national significant number starts with the leading digits, e.g.
+ * `{ leadingDigits: /^2/, template: '0## #### ####' }`
+ */
+export type PhoneTemplate =
+  | string
+  | {
+      leadingDigits: RegExp;
+      template: string;
+    };
+
+/**
+ * The display formats of a phone number: `e164` (+33612345678), `international`
+ * (+33 6 12 34 56 78) or `national` (06 12 34 56 78)
+ */
+export type PhoneFormat = 'e164' | 'international' | 'national';
+
+/**
+ * A phone number read with the numbering plan of its country
+ */
+export type ParsedPhone = {
+  /**
+   * The ISO 3166 code of the country
+   */
+  country: string;
+  callingCode: string;
+  /**
+   * The number without the calling code nor the national prefix
+   */
+  nationalNumber: string;
+  /**
+   * The type of the number, with the patterns of the country. The special types, like toll-free,
+   * come before mobile and landline, `fixedLineOrMobile` when the patterns don't tell them apart.
+   */
+  type: PhoneType;
+  /**
+   * The number in E.164 format, e.g. `+33612345678`
+   */
+  e164: string;
+};
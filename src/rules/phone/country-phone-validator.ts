@@ -1,8 +1,17 @@
 import { isNumber } from '../number';
 import { is_string } from '../string';
-import { CountryPhoneValidatorInterface } from './country-phone-validator.interface';
+import {
+  CountryPhoneValidatorInterface,
+  ParsedPhone,
+  PhoneCountry,
+  PhoneType,
+} from './country-phone-validator.interface';
+import { findCountries, getCountry } from './registry';
+
+// The special numbers are often within the mobile or landline ranges, they are classified first
+const specialTypes = ['tollFree', 'premium', 'voip'] as const;
 /**
- * This takes care of validating telephone numbers using a convention  validateCountryCode
+ * This takes care of validating telephone numbers with the numbering plans of the countries
  * @author Claude Fassinou
  */
 export class CountryPhoneValidator implements CountryPhoneValidatorInterface {
@@ -10,82 +19,152 @@ export class CountryPhoneValidator implements CountryPhoneValidatorInterface {
   protected code?: string;
   protected attribute: string | null;
 
-  constructor(value: string, code?: string, attribute: string | null = null) {
+  constructor(
+    value: string | number,
+    code?: string,
+    attribute: string | null = null,
+  ) {
     this._value = this._trim(value);
     this.code = code;
     this.attribute = attribute;
   }
-  //Tog
-  protected validateTG(): boolean {
-    return /^(\+228|00228)\d{8}$/.test(this._value);
-  }
-  //Niger
-  protected validateNE(): boolean {
-    return /^(\+227|00227)\d{8}$/.test(this._value);
-  }
-  //Guine biseau
-  protected validateGW(): boolean {
-    return /^(\+245|00245)\d{7,8}$/.test(this._value);
-  }
-  //Tchad
-  protected validateTD(): boolean {
-    return /^(\+235|00235)\d{8}$/.test(this._value);
-  }
-  //Cameroun
-  protected validateCM(): boolean {
-    return /^(\+237|00237)\d{8}$/.test(this._value);
-  }
-  //Burkina Faso
-  protected validateBF(): boolean {
-    return /^(\+226|00226)\d{8}$/.test(this._value);
+  /**
+   * Check the phone number against the numbering plan of each country code.
+   *
+   * @returns `true` if the number is valid in one of the countries, or globally without country
+   * code. `false` if a country code is unknown, see registerCountry().
+   */
+  validPhoneNumber(): boolean {
+    if (!(is_string(this._value) || isNumber(this._value))) {
+      return false;
+    }
+    if (typeof this.code === 'string') {
+      return this.parse() !== null;
+    }
+    return this.parse() !== null || this._validGlobally();
   }
-  //Angola
-  protected validateAO(): boolean {
-    return /^(\+244|00244)[9,2][1-9]\d{7}$/.test(this._value);
+
+  /**
+   * Read the number with the numbering plan of the first country code where it is valid. A
+   * number in national format is read with the country codes, the first one being the default
+   * region. Without country code, only an international number can be read, its country is found
+   * with its calling code.
+   *
+   * @returns The parsed number, or `null` when it is not a valid number or a country code is
+   * unknown, see registerCountry().
+   */
+  parse(): ParsedPhone | null {
+    const countries =
+      typeof this.code === 'string'
+        ? this._countriesOfCodes(this.code)
+        : this._countriesOfCallingCode();
+    if (countries === null) {
+      return null;
+    }
+
+    for (const [code, country] of countries) {
+      const number = this._nationalNumber(country);
+      if (number !== null && this._validNationalNumber(country, number)) {
+        return {
+          country: code,
+          callingCode: country.callingCode,
+          nationalNumber: number,
+          type: this._typeOf(country, number),
+          e164: `+${country.callingCode}${number}`,
+        };
+      }
+    }
+    return null;
   }
-  //Benin
-  protected validateBJ(): boolean {
-    return /^(\+229|00229)\d{8}$/.test(this._value);
+
+  /**
+   * Get the countries of the comma-separated country codes, or `null` when one of them is unknown
+   */
+  protected _countriesOfCodes(codes: string): [string, PhoneCountry][] | null {
+    const countries: [string, PhoneCountry][] = [];
+    for (const code of codes.split(',')) {
+      const key = code.trim().toUpperCase();
+      if (key.length === 0) {
+        continue;
+      }
+      const country = getCountry(key);
+      if (!country) {
+        return null;
+      }
+      countries.push([key, country]);
+    }
+    return countries;
   }
-  // United States
-  protected validateUS(): boolean {
-    return /^(\+1|001)[2-9]\d{9}$/.test(this._value);
+
+  /**
+   * Get the countries of the calling code of an international number
+   */
+  protected _countriesOfCallingCode(): [string, PhoneCountry][] {
+    const digits = this._value.replace(/^(\+|00)/, '');
+    if (digits === this._value) {
+      return [];
+    }
+    return [1, 2, 3].flatMap((length) =>
+      findCountries(digits.slice(0, length)),
+    );
   }
 
-  // French
-  protected validateFR(): boolean {
-    return /^(\+33|0033|0)[1-9](\d{2}){4}$/.test(this._value);
+  /**
+   * Check if a national significant number is a valid number of the country
+   */
+  protected _validNationalNumber(
+    country: PhoneCountry,
+    number: string,
+  ): boolean {
+    return (
+      /^\d+$/.test(number) &&
+      country.lengths.includes(number.length) &&
+      (!country.pattern || country.pattern.test(number))
+    );
   }
+
   /**
-   * Call the phone validator method for each country code and return the results.
-   *
-   * @returns An array of validation results, where each element corresponds to a country code and is either `true` or `false`.
-   * @throws Error if the validator method for a country code does not exist.
+   * Get the type of a valid national significant number, `fixedLineOrMobile` when it matches both
+   * the mobile and the landline patterns or neither of them
    */
-  validPhoneNumber(): boolean {
-    if (!(is_string(this._value) || isNumber(this._value))) {
-      return false;
+  protected _typeOf(country: PhoneCountry, number: string): PhoneType {
+    const patterns = country.types ?? {};
+    const special = specialTypes.find((type) => patterns[type]?.test(number));
+    if (special) {
+      return special;
     }
-    if (typeof this.code === 'string') {
-      const results: boolean[] = [];
-      //Parse code
-      const codes = this.code
-        .split(',')
-        .map((code) => code.trim().toUpperCase());
-      //For each code, call the corresponding function
-      for (const code of codes) {
-        const methodName = `validate${code}`;
-        const method = this[methodName as keyof this];
-        //Ensure that the method exists
-        if (typeof method === 'function') {
-          results.push(method.call(this));
-        } else {
-          throw new Error(`Validator method '${methodName}' does not exist.`);
-        }
+    const mobile = !!patterns.mobile?.test(number);
+    const landline = !!patterns.landline?.test(number);
+    if (mobile !== landline) {
+      return mobile ? 'mobile' : 'landline';
+    }
+    return 'fixedLineOrMobile';
+  }
+
+  /**
+   * Get the national significant number, without the calling code or the national prefix. A
+   * number in national format of a country without national prefix, or where it is optional, is
+   * read as is.
+   */
+  protected _nationalNumber(country: PhoneCountry): string | null {
+    for (const international of ['+', '00']) {
+      if (this._value.startsWith(`${international}${country.callingCode}`)) {
+        return this._value.slice(
+          international.length + country.callingCode.length,
+        );
       }
-      return results.some((isValid) => isValid);
     }
-    return this._validGlobally();
+    if (this._value.startsWith('+')) {
+      return null;
+    }
+    const prefix = country.nationalPrefix;
+    if (!prefix) {
+      return this._value;
+    }
+    if (this._value.startsWith(prefix)) {
+      return this._value.slice(prefix.length);
+    }
+    return country.nationalPrefixOptional ? this._value : null;
   }
 
   /**
@@ -102,8 +181,8 @@ export class CountryPhoneValidator implements CountryPhoneValidatorInterface {
     return /^(\+|00|0)[0-9]{1,3}[0-9]{1,4}[0-9]{6,13}$/.test(this._value);
   }
 
-  private _trim(value: string): string {
-    value = typeof value !== 'string' ? value : String(value);
-    return value.replace(/\s/g, '').replace(/-/g, '').replace(/\./g, '');
+  private _trim(value: string | number): string {
+    value = typeof value === 'string' ? value : String(value);
+    return value.replace(/[\s\-.()]/g, '');
   }
 }
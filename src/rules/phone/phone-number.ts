@@ -0,0 +1,94 @@
+import { CountryPhoneValidator } from './country-phone-validator';
+import {
+  ParsedPhone,
+  PhoneFormat,
+  PhoneTemplate,
+  PhoneType,
+} from './country-phone-validator.interface';
+import { getCountry } from './registry';
+
+/**
+ * Read a phone number with the numbering plans of the countries.
+ * @param input - The phone number, spaces, dashes, dots and parentheses are ignored
+ * @param countries - The countries of the number, comma-separated. The first one is the default
+ * region of a number in national format. Without them, the number must be in international format.
+ * @returns The parsed number, or `null` when it is not a valid number
+ * @example
+ * ```typescript
+ * parsePhone('06 12 34 56 78', 'FR');
+ * // { country: 'FR', callingCode: '33', nationalNumber: '612345678', type: 'mobile', e164: '+33612345678' }
+ * ```
+ */
+export function parsePhone(
+  input: string,
+  countries?: string | string[],
+): ParsedPhone | null {
+  return new CountryPhoneValidator(
+    input,
+    Array.isArray(countries) ? countries.join(',') : countries,
+  ).parse();
+}
+
+/**
+ * Display a parsed phone number. The national and international formats need a template of the
+ * country of the number, see registerCountry(), the number is displayed in E.164 format without it.
+ * @param phone - The parsed number, see parsePhone()
+ * @param format - `e164` (+33612345678), `international` (+33 6 12 34 56 78) or `national` (06 12 34 56 78)
+ */
+export function formatPhone(
+  phone: ParsedPhone,
+  format: PhoneFormat = 'e164',
+): string {
+  if (format === 'e164') {
+    return phone.e164;
+  }
+  const number = phone.nationalNumber;
+  const template = findTemplate(
+    getCountry(phone.country)?.formats?.[format],
+    number,
+  );
+  if (!template) {
+    return phone.e164;
+  }
+  return format === 'national'
+    ? applyTemplate(template, number)
+    : `+${phone.callingCode} ${applyTemplate(template, number)}`;
+}
+
+/**
+ * Check if a parsed phone number is of one of the types. A `fixedLineOrMobile` number, whose
+ * country doesn't tell the mobile and the landline numbers apart, is only of this type: accept
+ * it explicitly, e.g. `['mobile', 'fixedLineOrMobile']`. The `fixedLineOrMobile` type also
+ * accepts the mobile and the landline numbers.
+ * @param phone - The parsed number, see parsePhone()
+ * @param types - The accepted types
+ */
+export function isPhoneType(phone: ParsedPhone, types: PhoneType[]): boolean {
+  return types.some(
+    (type) =>
+      type === phone.type ||
+      (type === 'fixedLineOrMobile' &&
+        (phone.type === 'mobile' || phone.type === 'landline')),
+  );
+}
+
+/**
+ * Get the first template having a `#` for each digit of the number and matching its leading digits
+ */
+function findTemplate(templates: PhoneTemplate[] | undefined, number: string) {
+  for (const item of templates ?? []) {
+    const template = typeof item === 'string' ? item : item.template;
+    if (
+      template.split('#').length - 1 === number.length &&
+      (typeof item === 'string' || item.leadingDigits.test(number))
+    ) {
+      return template;
+    }
+  }
+  return undefined;
+}
+
+function applyTemplate(template: string, number: string) {
+  let index = 0;
+  return template.replace(/#/g, () => number[index++]);
+}
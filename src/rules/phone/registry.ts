@@ -0,0 +1,51 @@
+import { phoneCountries } from './countries';
+import { PhoneCountry } from './country-phone-validator.interface';
+
+const registry = new Map<string, PhoneCountry>(Object.entries(phoneCountries));
+
+/**
+ * Add a country to the countries known by the phone rule, or override the numbering plan of a
+ * known country. The types given are merged with the types of the country.
+ * @param code - The ISO 3166 code of the country, e.g. `FR`
+ * @param country - The numbering plan, a new country needs its calling code and its lengths
+ * @example
+ * ```typescript
+ * registerCountry('FR', { types: { mobile: /^[67]\d{8}$/ } });
+ * registerCountry('XK', { callingCode: '383', nationalPrefix: '0', lengths: [8, 9] });
+ * ```
+ */
+export function registerCountry(
+  code: string,
+  country: Partial<PhoneCountry>,
+): void {
+  const key = code.trim().toUpperCase();
+  const current = registry.get(key);
+  if (!current && (!country.callingCode || !country.lengths?.length)) {
+    throw new Error(
+      `The country '${key}' needs a calling code and the lengths of its numbers`,
+    );
+  }
+  registry.set(key, {
+    ...current,
+    ...country,
+    types: { ...current?.types, ...country.types },
+  } as PhoneCountry);
+}
+
+/**
+ * Get the numbering plan of a country
+ * @param code - The ISO 3166 code of the country
+ */
+export function getCountry(code: string): PhoneCountry | undefined {
+  return registry.get(code.trim().toUpperCase());
+}
+
+/**
+ * Get the countries of a calling code, the main country of the code first
+ * @param callingCode - The calling code, without + nor 00
+ */
+export function findCountries(callingCode: string): [string, PhoneCountry][] {
+  return [...registry.entries()]
+    .filter(([, country]) => country.callingCode === callingCode)
+    .sort(([, a], [, b]) => Number(!!b.main) - Number(!!a.main));
+}
@@ -0,0 +1,6 @@
+import { Schema } from './schema';
+
+/**
+ * A schema without type rule, to build the rule list with rule()
+ */
+export class AnySchema<T = unknown> extends Schema<T> {}
@@ -0,0 +1,18 @@
+import { InputParms } from '../contracts';
+import { Infer, Schema } from './schema';
+
+export class ArraySchema<S extends Schema = Schema> extends Schema<Infer<S>[]> {
+  constructor(protected readonly items?: S) {
+    super('array');
+  }
+
+  /**
+   * Compile the array rules, and the items rules under the `{name}.*` wildcard.
+   */
+  compile(name: string): Record<string, InputParms> {
+    return {
+      ...super.compile(name),
+      ...(this.items ? this.items.compile(`${name}.*`) : {}),
+    };
+  }
+}
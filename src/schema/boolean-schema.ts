@@ -0,0 +1,7 @@
+import { Schema } from './schema';
+
+export class BooleanSchema extends Schema<boolean> {
+  constructor() {
+    super('boolean');
+  }
+}
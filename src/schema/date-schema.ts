@@ -0,0 +1,34 @@
+import { Schema } from './schema';
+
+/**
+ * The date rules output an ISO 8601 string
+ */
+export class DateSchema extends Schema<string> {
+  constructor() {
+    super('date', 'date');
+  }
+
+  /**
+   * Read the date strictly in a format, e.g. `DD/MM/YYYY`, instead of any date
+   */
+  format(format: string): this {
+    this._rules = this._rules.map((rule) =>
+      rule.name === 'date'
+        ? { ...rule, name: 'dateFormat', params: format }
+        : rule,
+    );
+    return this;
+  }
+
+  before(date: string): this {
+    return this.rule('before', date);
+  }
+
+  after(date: string): this {
+    return this.rule('after', date);
+  }
+
+  between(start: string, end: string): this {
+    return this.rule('dateBetween', [start, end]);
+  }
+}
@@ -0,0 +1,29 @@
+import { Schema } from './schema';
+
+export class FileSchema extends Schema<File | File[]> {
+  constructor() {
+    super('file', 'file');
+  }
+
+  /**
+   * @param size - A size like `2MB`
+   */
+  maxSize(size: string): this {
+    return this.rule('maxFileSize', size);
+  }
+
+  /**
+   * @param size - A size like `10KB`
+   */
+  minSize(size: string): this {
+    return this.rule('minFileSize', size);
+  }
+
+  between(min: string, max: string): this {
+    return this.rule('fileBetween', [min, max]);
+  }
+
+  mimes(...types: string[]): this {
+    return this.rule('mimes', types);
+  }
+}
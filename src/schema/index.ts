@@ -0,0 +1,44 @@
+import { AnySchema } from './any-schema';
+import { ArraySchema } from './array-schema';
+import { BooleanSchema } from './boolean-schema';
+import { DateSchema } from './date-schema';
+import { FileSchema } from './file-schema';
+import { NumberSchema } from './number-schema';
+import { ObjectSchema, SchemaShape } from './object-schema';
+import { Schema } from './schema';
+import { StringSchema } from './string-schema';
+
+export * from './schema';
+export * from './any-schema';
+export * from './array-schema';
+export * from './boolean-schema';
+export * from './date-schema';
+export * from './file-schema';
+export * from './number-schema';
+export * from './object-schema';
+export * from './string-schema';
+
+/**
+ * Schema builder, an alternative to the pipe-string syntax
+ * @example
+ * ```typescript
+ * const form = Jevalide.init().form(
+ *   j.object({
+ *     name: j.string().required().minlength(3),
+ *     age: j.number().integer().between(18, 40),
+ *     tags: j.array(j.string().maxlength(20)),
+ *   }),
+ *   data,
+ * );
+ * ```
+ */
+export const j = {
+  string: () => new StringSchema(),
+  number: () => new NumberSchema(),
+  boolean: () => new BooleanSchema(),
+  date: () => new DateSchema(),
+  file: () => new FileSchema(),
+  array: <S extends Schema>(items?: S) => new ArraySchema<S>(items),
+  object: <S extends SchemaShape>(shape: S) => new ObjectSchema<S>(shape),
+  any: <T = unknown>() => new AnySchema<T>(),
+};
@@ -0,0 +1,47 @@
+import { Schema } from './schema';
+
+export class NumberSchema extends Schema<number> {
+  constructor() {
+    super('number', 'number');
+  }
+
+  integer(): this {
+    return this.rule('integer');
+  }
+
+  min(min: number): this {
+    return this.rule('min', min);
+  }
+
+  max(max: number): this {
+    return this.rule('max', max);
+  }
+
+  between(min: number, max: number): this {
+    return this.rule('numberBetween', [min, max]);
+  }
+
+  greaterThan(threshold: number | string): this {
+    return this.rule('greaterThan', threshold);
+  }
+
+  lessThan(threshold: number | string): this {
+    return this.rule('lessThan', threshold);
+  }
+
+  modulo(mod: number): this {
+    return this.rule('modulo', mod);
+  }
+
+  digit(count: number): this {
+    return this.rule('digit', count);
+  }
+
+  minDigit(count: number): this {
+    return this.rule('minDigit', count);
+  }
+
+  maxDigit(count: number): this {
+    return this.rule('maxDigit', count);
+  }
+}
@@ -0,0 +1,25 @@
+import { InputParms } from '../contracts';
+import { transformToArray } from '../utils';
+import { Infer, Schema } from './schema';
+
+export type SchemaShape = Record<string, Schema>;
+
+export class ObjectSchema<S extends SchemaShape = SchemaShape> extends Schema<{
+  [K in keyof S]: Infer<S[K]>;
+}> {
+  constructor(readonly shape: S) {
+    super('object');
+  }
+
+  /**
+   * Compile the object rules, and the rules of each key under `{name}.{key}`.
+   * @param name - The input name, omit it to compile the shape at the root of the form.
+   */
+  compile(name?: string): Record<string, InputParms> {
+    const inputs = name ? super.compile(name) : {};
+    transformToArray(this.shape, (schema, key) => {
+      Object.assign(inputs, schema.compile(name ? `${name}.${key}` : `${key}`));
+    });
+    return inputs;
+  }
+}
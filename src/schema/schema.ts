@@ -0,0 +1,171 @@
+import { InputParms, RuleParam, RuleType } from '../contracts';
+
+/**
+ * A schema whose value can be null
+ */
+export type NullableSchema<S> = S & { readonly __nullable: true };
+
+/**
+ * The type of the value validated by a schema
+ */
+export type Infer<S> = S extends { readonly __nullable: true }
+  ? SchemaOutput<S> | null
+  : SchemaOutput<S>;
+
+type SchemaOutput<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * Base class of the schema builders. A schema is a typed list of rules, compiled to the
+ * same rule entries as the pipe-string syntax.
+ * @example
+ * ```typescript
+ * j.string().required().minlength(3).compile('username');
+ * // { username: { rules: [{ name: 'required' }, { name: 'string' }, { name: 'minlength', params: 3 }] } }
+ * ```
+ */
+export abstract class Schema<T = unknown> {
+  /**
+   * Type of the validated value, only used by the type inference
+   */
+  declare readonly __output?: T;
+  declare readonly __nullable?: boolean;
+
+  protected _rules: RuleType[] = [];
+
+  protected _params: InputParms = {};
+
+  constructor(rule?: string, type?: string) {
+    if (rule) {
+      this.rule(rule);
+    }
+    if (type) {
+      this._params.type = type;
+    }
+  }
+
+  /**
+   * Add any rule registered in the rules bag, including the custom ones.
+   * @param name - The rule name.
+   * @param params - The rule parameters, an array is joined with commas.
+   * @param message - Optional custom error message.
+   */
+  rule(name: string, params?: RuleParam | RuleParam[], message?: string): this {
+    this._rules.push(this._entry(name, params, message));
+    return this;
+  }
+
+  /**
+   * Set the error message of the last added rule.
+   */
+  message(message: string): this {
+    const rule = this._rules[this._rules.length - 1];
+    if (rule) {
+      rule.message = message;
+    }
+    return this;
+  }
+
+  required(message?: string): this {
+    return this._prepend('required', undefined, message);
+  }
+
+  nullable(): NullableSchema<this> {
+    return this._prepend('nullable') as NullableSchema<this>;
+  }
+
+  requiredIf(field: string, ...values: RuleParam[]): this {
+    return this._prepend('requiredIf', [field, ...values]);
+  }
+
+  requiredUnless(field: string, ...values: RuleParam[]): this {
+    return this._prepend('requiredUnless', [field, ...values]);
+  }
+
+  requiredWith(...fields: string[]): this {
+    return this._prepend('requiredWith', fields);
+  }
+
+  requiredWhen(...fields: string[]): this {
+    return this._prepend('requiredWhen', fields);
+  }
+
+  in(...values: RuleParam[]): this {
+    return this.rule('in', values);
+  }
+
+  equal(value: RuleParam): this {
+    return this.rule('equal', value);
+  }
+
+  same(value: RuleParam): this {
+    return this.rule('same', value);
+  }
+
+  /**
+   * The name used in the error messages instead of the input name.
+   */
+  attribute(attribute: string): this {
+    this._params.attribute = attribute;
+    return this;
+  }
+
+  failsOnFirst(failsOnFirst: boolean = true): this {
+    this._params.failsOnfirst = failsOnFirst;
+    return this;
+  }
+
+  /**
+   * Get the rule entries of the schema.
+   */
+  toRules(): RuleType[] {
+    return this._rules.map((rule) => ({ ...rule }));
+  }
+
+  /**
+   * Get the input parameters of the schema.
+   * @param name - The input name.
+   */
+  toParams(name?: string): InputParms {
+    const params: InputParms = { ...this._params, rules: this.toRules() };
+    if (name) {
+      params.name = name;
+    }
+    return params;
+  }
+
+  /**
+   * Compile the schema to the inputs given to FormValidator.make(), keyed by path.
+   * @param name - The input name.
+   */
+  compile(name: string): Record<string, InputParms> {
+    return { [name]: this.toParams(name) };
+  }
+
+  /**
+   * Rules changing whether the other rules apply go first.
+   */
+  protected _prepend(
+    name: string,
+    params?: RuleParam | RuleParam[],
+    message?: string,
+  ): this {
+    this._rules = this._rules.filter((rule) => rule.name !== name);
+    this._rules.unshift(this._entry(name, params, message));
+    return this;
+  }
+
+  private _entry(
+    name: string,
+    params?: RuleParam | RuleParam[],
+    message?: string,
+  ): RuleType {
+    const rule: RuleType = { name };
+    if (params !== undefined) {
+      rule.params = Array.isArray(params) ? params.join(',') : params;
+    }
+    if (message) {
+      rule.message = message;
+    }
+    return rule;
+  }
+}
@@ -0,0 +1,89 @@
+import { Schema } from './schema';
+
+export class StringSchema extends Schema<string> {
+  constructor() {
+    super('string');
+  }
+
+  email(): this {
+    return this.rule('email');
+  }
+
+  url(): this {
+    return this.rule('url');
+  }
+
+  minlength(length: number): this {
+    return this.rule('minlength', length);
+  }
+
+  maxlength(length: number): this {
+    return this.rule('maxlength', length);
+  }
+
+  length(length: number): this {
+    return this.rule('length', length);
+  }
+
+  between(min: number, max: number): this {
+    return this.rule('stringBetween', [min, max]);
+  }
+
+  startWith(...prefixes: string[]): this {
+    return this.rule('startWith', prefixes);
+  }
+
+  endWith(...suffixes: string[]): this {
+    return this.rule('endWith', suffixes);
+  }
+
+  contains(...substrings: string[]): this {
+    return this.rule('contains', substrings);
+  }
+
+  excludes(...substrings: string[]): this {
+    return this.rule('excludes', substrings);
+  }
+
+  /**
+   * Unlike the pipe-string syntax, the pattern can contain `|` and `:`.
+   */
+  regex(pattern: RegExp | string): this {
+    return this.rule(
+      'regex',
+      pattern instanceof RegExp ? pattern.source : pattern,
+    );
+  }
+
+  password(): this {
+    return this.rule('password');
+  }
+
+  upper(): this {
+    return this.rule('upper');
+  }
+
+  lower(): this {
+    return this.rule('lower');
+  }
+
+  startWithUpper(): this {
+    return this.rule('startWithUpper');
+  }
+
+  startWithLower(): this {
+    return this.rule('startWithLower');
+  }
+
+  hasLetter(): this {
+    return this.rule('hasLetter');
+  }
+
+  phone(...countries: string[]): this {
+    return this.rule('phone', countries.length ? countries : undefined);
+  }
+
+  time(): this {
+    return this.rule('time');
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Give the current date, e.g. a frozen date in the tests
+ */
+export type Clock = () => Date;
+
+const systemClock: Clock = () => new Date();
+
+let clock: Clock = systemClock;
+
+/**
+ * Set the clock giving the current date to the date rules, e.g. `now`, `today` or `+30 days`.
+ * Without clock, the system clock is restored.
+ * @example
+ * ```typescript
+ * setClock(() => new Date('2024-06-15T10:00:00Z'));
+ * ```
+ */
+export function setClock(next?: Clock): void {
+  clock = next ?? systemClock;
+}
+
+/**
+ * Returns the current date, given by the clock.
+ */
+export function now(): Date {
+  return clock();
+}
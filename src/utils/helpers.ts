@@ -50,15 +50,6 @@ export const throwEmptyArgsException = (fnc: string, message?: string) => {
   );
 };
 
-/**
- * Returns the current date and time in ISO 8601 format.
- * @returns The current date and time as a string in ISO 8601 format.
- */
-export function now(): string {
-  const now = new Date();
-  return now.toISOString();
-}
-
 /**
  * Checks if the given sub object is a sub-object of the obj object.
  * This function compares the key-value pairs of sub with the key-value pairs of obj.
@@ -278,3 +269,111 @@ export const toBoolean = (value: unknown): boolean => {
 
   return Boolean(value);
 };
+
+/**
+ * Checks if the given value is a promise (or any thenable).
+ * @param value - The value to check.
+ * @returns true if the value can be awaited, false otherwise.
+ */
+export function isPromise<T = unknown>(value: unknown): value is Promise<T> {
+  return (
+    !!value &&
+    (typeof value === 'object' || typeof value === 'function') &&
+    typeof (value as { then?: unknown }).then === 'function'
+  );
+}
+
+/**
+ * Check if a key would reach the prototype of an object, e.g. a `__proto__` path segment
+ */
+export function isUnsafeKey(key: string): boolean {
+  return key === '__proto__' || key === 'constructor' || key === 'prototype';
+}
+
+/**
+ * Set a value at a dotted path, creating the missing objects, or arrays for the numeric segments.
+ * A path with a segment reaching the prototype, e.g. `__proto__.isAdmin`, is ignored.
+ */
+export function data_set(
+  obj: Record<string, any>,
+  path: string,
+  value: unknown,
+): Record<string, any> {
+  const segments = path.split('.');
+  if (segments.some(isUnsafeKey)) {
+    return obj;
+  }
+  let current: any = obj;
+
+  segments.forEach((segment, index) => {
+    if (index === segments.length - 1) {
+      current[segment] = value;
+      return;
+    }
+    if (current[segment] === null || typeof current[segment] !== 'object') {
+      current[segment] = /^\d+$/.test(segments[index + 1]) ? [] : {};
+    }
+    current = current[segment];
+  });
+
+  return obj;
+}
+
+/**
+ * Check if a dotted path matches a pattern, where a `*` segment matches any segment
+ */
+export function matchesPath(pattern: string, path: string): boolean {
+  if (!pattern.includes('*')) {
+    return pattern === path;
+  }
+  const regex = pattern
+    .split('.')
+    .map((segment) =>
+      segment === '*'
+        ? '[^.]+'
+        : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+    )
+    .join('\\.');
+  return new RegExp(`^${regex}$`).test(path);
+}
+
+/**
+ * Copy the plain objects and the arrays of a value, other values like files are kept as is
+ */
+export function data_clone<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => data_clone(item)) as T;
+  }
+  if (value && Object.prototype.toString.call(value) === '[object Object]') {
+    const copy: Record<string, any> = {};
+    for (const key of Object.keys(value)) {
+      copy[key] = data_clone((value as Record<string, any>)[key]);
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+/**
+ * Compare two values, the plain objects and the arrays by their content
+ */
+export function data_equal(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((item, i) => data_equal(item, b[i]))
+    );
+  }
+  const isObject = (v: unknown): v is Record<string, any> =>
+    !!v && Object.prototype.toString.call(v) === '[object Object]';
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => data_equal(a[key], b[key]))
+    );
+  }
+  return false;
+}
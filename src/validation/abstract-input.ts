@@ -1,7 +1,17 @@
 import { Bag, Validation } from '.';
-import { InputValueType, InputType, InputParms, RuleNamed } from '../contracts';
+import {
+  InputValueType,
+  InputType,
+  InputParms,
+  RuleContext,
+  RuleNamed,
+  ValidationTrigger,
+} from '../contracts';
+import { data_clone, data_equal } from '../utils';
 import { InputRule } from './utils/input-rule';
 import { TrParameter } from './utils/parameter';
+import { Scheduler } from './utils/scheduler';
+import { makeShapeRule, shapeMessage } from './utils/shape-rule';
 
 export abstract class AbstractInputralidator {
   protected __wasInit = false;
@@ -25,6 +35,25 @@ export abstract class AbstractInputralidator {
 
   protected _type: InputType = 'text';
 
+  protected _scheduler = new Scheduler();
+
+  /**
+   * Check if the form of the input was submitted, for the lazy trigger
+   */
+  protected _submitted = false;
+
+  /**
+   * The snapshot of the value, compared to the value by isDirty() and restored by reset()
+   */
+  protected _initialValue: InputValueType = undefined;
+
+  protected _touched = false;
+
+  /**
+   * Check if the value was changed since the snapshot, even back to the initial value
+   */
+  protected _changed = false;
+
   constructor(
     protected readonly _bag: Bag,
     params?: InputParms,
@@ -38,6 +67,7 @@ export abstract class AbstractInputralidator {
 
   setRules(rules: RuleNamed) {
     this.$rules.set(rules);
+    this._addShape();
     return this;
   }
 
@@ -50,14 +80,74 @@ export abstract class AbstractInputralidator {
     return this.getValue();
   }
   set value(value) {
-    this._value = value;
-    this.validate();
+    this.setValue(value);
   }
 
+  abstract setValue(value: InputValueType): this;
+
   getName() {
     return this.name;
   }
 
+  /**
+   * Check if the input is validated while the user types
+   */
+  get autoValidate(): boolean {
+    return this.param.autoValidate ?? true;
+  }
+
+  /**
+   * The events validating the input, on change and blur by default, on submit only when
+   * autoValidate is off
+   */
+  get triggers(): ValidationTrigger[] {
+    const trigger = this.param.trigger;
+    if (trigger) {
+      return Array.isArray(trigger) ? trigger : [trigger];
+    }
+    return this.autoValidate ? ['onChange', 'onBlur'] : ['onSubmit'];
+  }
+
+  /**
+   * Check if the input is validated on change or on blur. A lazy input is only validated on
+   * submit until its form is submitted once.
+   */
+  validatesOn(event: 'onChange' | 'onBlur'): boolean {
+    const triggers = this.triggers;
+    if (triggers.includes('lazy')) {
+      return this._submitted;
+    }
+    return triggers.includes(event);
+  }
+
+  /**
+   * Mark the form of the input as submitted, the lazy input is then validated on change and blur
+   */
+  markSubmitted(submitted = true): this {
+    this._submitted = submitted;
+    return this;
+  }
+
+  get submitted() {
+    return this._submitted;
+  }
+
+  /**
+   * Run a validation callback, delayed by the debounce or the throttle of the input
+   */
+  schedule(callback: () => unknown): this {
+    this._scheduler.schedule(callback);
+    return this;
+  }
+
+  /**
+   * Drop the validation waiting for the debounce or the throttle
+   */
+  cancelScheduled(): this {
+    this._scheduler.cancel();
+    return this;
+  }
+
   get errors() {
     return this.validator.getErrors();
   }
@@ -66,31 +156,118 @@ export abstract class AbstractInputralidator {
     return this._value;
   }
 
+  getInitialValue() {
+    return this._initialValue;
+  }
+
+  /**
+   * Take a snapshot of the value, the input is then pristine
+   */
+  setInitialValue(value: InputValueType): this {
+    this._initialValue = data_clone(value);
+    this._changed = false;
+    return this;
+  }
+
+  /**
+   * Check if the value differs from the initial value
+   */
+  isDirty(): boolean {
+    return !data_equal(this._value, this._initialValue);
+  }
+
+  /**
+   * Check if the value was never changed since the snapshot
+   */
+  isPristine(): boolean {
+    return !this._changed && !this.isDirty();
+  }
+
+  /**
+   * Check if the element of the input lost the focus at least once
+   */
+  isTouched(): boolean {
+    return this._touched;
+  }
+
+  touch(touched = true): this {
+    this._touched = touched;
+    return this;
+  }
+
+  /**
+   * Record a change of the value made without setValue(), like a change of the form data
+   */
+  markChanged(changed = true): this {
+    this._changed = changed;
+    return this;
+  }
+
+  /**
+   * Get the value returned by the rules during the last validation, like the ISO string of a date
+   */
+  getValidatedValue() {
+    return this.validator.value;
+  }
+
+  /**
+   * Check the result of the last validation, without running it again
+   */
+  hasPassed() {
+    return this._passed;
+  }
+
   setParams(param?: InputParms) {
     if (typeof param === 'object' && typeof param !== 'undefined') {
       this.param = { ...this.param, ...param };
+      this._scheduler.cancel();
+      this._scheduler = new Scheduler(this.param.debounce, this.param.throttle);
     }
     return this;
   }
 
+  /**
+   * Set the context given to the rules, e.g. the whole form data
+   */
+  setContext(context: RuleContext): this {
+    this.validator.context = context;
+    return this;
+  }
+
   setMessageAttributeName(attrName?: string): this {
     this.validator.attribute = attrName ?? this.name;
     return this;
   }
 
   private _init(params?: InputParms) {
-    this.setParams(params).setMessageAttributeName();
+    this.setParams(params).setMessageAttributeName(this.param.attribute);
 
     const rules: RuleNamed | undefined = params?.rules;
     if (rules) {
       this.rules.set(rules, this.param.messages);
     }
+    this._addShape();
 
     this.validator.rules = this.rules;
     this.validator.failsOnFirst = params?.failsOnfirst ?? true;
     this._type = (params?.type ?? 'text') as InputType;
   }
 
+  /**
+   * Validate the keys of the value with the shape of the input, after the other rules
+   */
+  private _addShape() {
+    const { shape, unknownKeys } = this.param;
+    if (shape) {
+      this.rules.add(
+        'shape',
+        shapeMessage(this.param),
+        undefined,
+        makeShapeRule(this._bag, shape, unknownKeys),
+      );
+    }
+  }
+
   getMessageAttributeName() {
     return this.validator.attribute;
   }
@@ -1,7 +1,13 @@
 import { dateBetween } from './../rules/date';
 import { endWithString, stringBetween } from '../rules/string';
 import { fileBetween, isMimes, minFileSize } from '../rules/file';
-import { Rule, RuleCallBack, RulesBag, RulesMessages } from '../contracts';
+import {
+  AnyRuleCallBack,
+  Rule,
+  RuleCallBack,
+  RulesBag,
+  RulesMessages,
+} from '../contracts';
 import {
   between,
   contains,
@@ -16,6 +22,10 @@ import {
   minRule,
   minlength,
   required,
+  requiredIf,
+  requiredUnless,
+  requiredWith,
+  requiredWhen,
   startWith,
   length,
   url,
@@ -46,21 +56,36 @@ import {
   isObject,
   isJson,
   isArray,
+  validity,
+  minItems,
+  maxItems,
+  itemsBetween,
+  distinct,
+  includesItem,
+  makeArrayOf,
 } from '../rules';
-import { dateAfter, dateBefore, isDate, isTime } from '../rules/date';
+import {
+  dateAfter,
+  dateBefore,
+  dateFormat,
+  isDate,
+  isTime,
+} from '../rules/date';
 import { Local } from '../locale/local';
-import { phone } from '../rules/phone';
+import { phone, phoneType } from '../rules/phone';
 
 export class Bag {
-  protected rules: RulesBag & {
-    [key: string]: RuleCallBack;
-  };
+  protected rules: RulesBag;
   trLocal: Local;
 
   constructor(trLocal: Local) {
     this.trLocal = trLocal;
     this.rules = {
       required: required,
+      requiredIf: requiredIf,
+      requiredUnless: requiredUnless,
+      requiredWith: requiredWith,
+      requiredWhen: requiredWhen,
       email: email,
       maxlength: maxlength,
       minlength: minlength,
@@ -90,9 +115,11 @@ export class Bag {
       startWithLower: startWithLower,
       password: passwordRule,
       date: isDate,
+      dateFormat: dateFormat,
       before: dateBefore,
       after: dateAfter,
       phone: phone,
+      phoneType: phoneType,
       time: isTime,
       startWithString: startWithString,
       endWithString: endWithString,
@@ -120,6 +147,13 @@ export class Bag {
       object: isObject,
       json: isJson,
       array: isArray,
+      minItems: minItems,
+      maxItems: maxItems,
+      itemsBetween: itemsBetween,
+      distinct: distinct,
+      includesItem: includesItem,
+      arrayOf: makeArrayOf((name) => this.getRule(name)),
+      validity: validity,
     };
   }
 
@@ -129,7 +163,12 @@ export class Bag {
    * @param callback - The callback function for the custom rule
    * @param message - The error message for the custom rule
    */
-  rule(rule: string, callback: RuleCallBack, message?: string, local?: string) {
+  rule(
+    rule: string,
+    callback: AnyRuleCallBack,
+    message?: string,
+    local?: string,
+  ) {
     this.addRule(rule, callback);
     this.addMessage(rule, message, local);
   }
@@ -139,7 +178,7 @@ export class Bag {
    * @param rule - The name of the custom rule
    * @param callback - The callback function for the custom rule
    */
-  addRule(rule: string, callback: RuleCallBack) {
+  addRule(rule: string, callback: AnyRuleCallBack) {
     this.rules[rule as keyof RulesBag] = callback;
   }
 
@@ -199,7 +238,7 @@ export class RuleBag extends Bag {
    * });
    * ```
    */
-  add(rule: string, callback: RuleCallBack): void {
+  add(rule: string, callback: AnyRuleCallBack): void {
     this.addRule(rule, callback);
   }
 
@@ -1,18 +1,39 @@
 import {
+  CssSelector,
+  DeepPartial,
+  ErrorSerializerOptions,
+  FormBindingOptions,
   FormConfig,
   FormHandler,
   InputParms,
   InputCallback,
   GroupHooks,
   MakeInput,
+  SafeParseResult,
 } from '../contracts';
-import { data_get, transformToArray } from '../utils';
+import {
+  data_clone,
+  data_get,
+  data_equal,
+  data_set,
+  getHTMLElementBySelector,
+  isUnsafeKey,
+  transformToArray,
+} from '../utils';
 import { InputValidator } from './input-validator';
 import { TrParameter } from './utils/parameter';
 import { Bag } from './bag';
+import { ErrorBag } from './utils/error-bag';
+import { ObjectSchema, Schema } from '../schema';
+import { FormBinding } from '../dom';
 
-export class FormValidator<T = unknown> {
-  private readonly _withCallbacks: ((form: FormValidator<T>) => boolean)[] = [];
+/**
+ * @typeParam T - The validated data
+ * @typeParam D - The raw data given to the form
+ */
+export class FormValidator<T = unknown, D = DeepPartial<T>> {
+  private readonly _withCallbacks: ((form: FormValidator<T, D>) => boolean)[] =
+    [];
   private _lifeCycleCallbacks: Record<string, FormHandler[]> = {};
 
   /***
@@ -24,6 +45,17 @@ export class FormValidator<T = unknown> {
    */
   private _emitOnFails = true;
 
+  /**
+   * Incremented on each validation, used to ignore stale asynchronous validations
+   */
+  private _validationRun = 0;
+
+  /**
+   * Number of form validations in progress, the form.validated event of their inputs is
+   * replaced by a single one emitted once the form is validated
+   */
+  private _validating = 0;
+
   /**
    * The inputs rules
    */
@@ -36,12 +68,37 @@ export class FormValidator<T = unknown> {
 
   parameter!: TrParameter;
 
-  private _data = {} as T;
+  private _data = {} as D;
+
+  /**
+   * The form element the form is bound to
+   */
+  private _root?: HTMLElement;
+
+  /**
+   * The errors set with setErrors()
+   */
+  private _externalErrors = new ErrorBag();
+
+  private _submitted = false;
+
+  /**
+   * The snapshot of the data
+   */
+  private _initialData = {} as D;
 
   private readonly wildcardPattern: { name: string; input: InputParms }[] = [];
+
+  /**
+   * The inputs created for the wildcard items, by path
+   */
+  private readonly _expanded = new Map<
+    string,
+    { pattern: string; array: boolean }
+  >();
   constructor(
     inputs: MakeInput,
-    data: Partial<T>,
+    data: D,
     private readonly _bag: Bag,
     config?: FormConfig,
   ) {
@@ -49,20 +106,137 @@ export class FormValidator<T = unknown> {
     this.setConfig(config);
     this.make(inputs);
     this.mergeData(data);
+    this.snapshot();
   }
 
-  setData(data: T) {
-    this._data = data && typeof data === 'object' ? data : ({} as T);
+  setData(data: D) {
+    this._data = data && typeof data === 'object' ? data : ({} as D);
     this.handleWildcards();
+    this._syncInputs();
   }
 
-  mergeData(data: Partial<T>) {
+  mergeData(data: D) {
     this._data = { ...this._data, ...data };
     this.handleWildcards();
+    this._syncInputs();
     return this;
   }
 
-  getData(): T {
+  /**
+   * Take a snapshot of the data, e.g. once saved: the inputs are then pristine, and reset()
+   * restores this data.
+   */
+  snapshot(): this {
+    this._initialData = data_clone(this._data);
+    this._inputs.forEach((input) => this._initInput(input));
+    return this;
+  }
+
+  /**
+   * Get the names of the inputs whose value differs from the snapshot
+   */
+  dirtyFields(): string[] {
+    return this._inputs
+      .filter((input) => input.isDirty())
+      .map((input) => input.getName());
+  }
+
+  /**
+   * Get the names of the inputs whose element lost the focus
+   */
+  touchedFields(): string[] {
+    return this._inputs
+      .filter((input) => input.isTouched())
+      .map((input) => input.getName());
+  }
+
+  /**
+   * Check if an input, or any input without a name, differs from the snapshot
+   */
+  isDirty(name?: string): boolean {
+    return this._someInput(name, (input) => input.isDirty());
+  }
+
+  /**
+   * Check if an input, or any input without a name, was touched
+   */
+  isTouched(name?: string): boolean {
+    return this._someInput(name, (input) => input.isTouched());
+  }
+
+  /**
+   * Check if an input, or every input without a name, was never changed since the snapshot
+   */
+  isPristine(name?: string): boolean {
+    return !this._someInput(name, (input) => !input.isPristine());
+  }
+
+  /**
+   * Mark an input and its nested inputs as touched
+   */
+  touch(name: string, touched = true): this {
+    this._inputs
+      .filter((input) => this._isWithin(input.getName(), name))
+      .forEach((input) => input.touch(touched));
+    return this;
+  }
+
+  /**
+   * Check if the errors of an input are surfaced. With the touchedOnly config, only the errors
+   * of the touched inputs are, until the form is submitted.
+   */
+  showsErrorsOf(name: string): boolean {
+    if (!this.config.touchedOnly || this._submitted) {
+      return true;
+    }
+    // The errors of the items of an array are shown with the errors of its input
+    const input =
+      this.get(name) ??
+      this._inputs.find((input) => this._isWithin(name, input.getName()));
+    return !input || input.isTouched();
+  }
+
+  private _someInput(
+    name: string | undefined,
+    fn: (input: InputValidator) => boolean,
+  ) {
+    if (name === undefined) {
+      return this._inputs.some(fn);
+    }
+    const input = this.get(name);
+    return !!input && fn(input);
+  }
+
+  /**
+   * Give an input its value in the form data, and its value in the snapshot as initial value
+   */
+  private _initInput(input: InputValidator) {
+    const name = input.getName();
+    input
+      .fill(data_get(this._data as object, name))
+      .setInitialValue(data_get(this._initialData as object, name));
+  }
+
+  /**
+   * Copy the form data to the inputs, a changed value marks its input changed
+   */
+  private _syncInputs() {
+    for (const input of this._inputs) {
+      const value = data_get(this._data as object, input.getName());
+      if (!data_equal(value, input.getValue())) {
+        input.fill(value).markChanged();
+      }
+    }
+  }
+
+  private _isWithin(path: string, name: string) {
+    return path === name || path.startsWith(`${name}.`);
+  }
+
+  /**
+   * Get the raw data of the form, the validated values are given by validatedData()
+   */
+  getData(): D {
     return this._data;
   }
   /**
@@ -80,32 +254,223 @@ export class FormValidator<T = unknown> {
   }
 
   /**
-   * Validate each input and check if the form is valid.
+   * Validate each input and check if the form is valid. The form.passes/form.fails events are not
+   * emitted while an asynchronous rule is pending, see isValidAsync().
    * @returns A boolean indicating whether the form is valid after validating each input.
    */
   isValid() {
-    this.each((input) => {
+    this._validationRun++;
+    this._validating++;
+    const results = this.map((input) => {
       const value = data_get(this._data as object, input.getName());
-      input.setValue(value);
-      return input;
+      return this._bindContext(input).fill(value).valid();
     });
-    const valid = this.every((input) => {
-      return input.valid();
+    this._validating--;
+    const valid = results.every((passed) => passed);
+
+    const withCallbacksValid = this._withCallbacks.every((callback) =>
+      callback(this),
+    );
+
+    if (!this._inputs.some((input) => input.pending)) {
+      if (valid && withCallbacksValid) {
+        this._emitOnPassesEvent();
+      } else {
+        this._emitOnFailsEvent();
+      }
+      this._executeLifeCycleCallbacks('form.validated');
+    }
+
+    return valid && withCallbacksValid;
+  }
+
+  /**
+   * Asynchronous version of isValid(), to use when some inputs have asynchronous rules.
+   * The form.passes/form.fails events are emitted once every input has settled, unless a newer
+   * validation started in the meantime.
+   * @returns A promise resolving to a boolean indicating whether the form is valid.
+   */
+  async isValidAsync(): Promise<boolean> {
+    const run = ++this._validationRun;
+    this.each((input) => {
+      this._bindContext(input).fill(
+        data_get(this._data as object, input.getName()),
+      );
     });
 
+    this._validating++;
+    let results: boolean[];
+    try {
+      results = await Promise.all(this.map((input) => input.validAsync()));
+    } finally {
+      this._validating--;
+    }
+    const valid = results.every((passed) => passed);
+
     const withCallbacksValid = this._withCallbacks.every((callback) =>
       callback(this),
     );
 
-    if (valid && withCallbacksValid) {
-      this._emitOnPassesEvent();
-    } else {
-      this._emitOnFailsEvent();
+    if (run === this._validationRun) {
+      if (valid && withCallbacksValid) {
+        this._emitOnPassesEvent();
+      } else {
+        this._emitOnFailsEvent();
+      }
+      this._executeLifeCycleCallbacks('form.validated');
     }
 
     return valid && withCallbacksValid;
   }
 
+  /**
+   * Set the value of a path in the form data, without running the validation.
+   * @example
+   * ```typescript
+   * form.setValue('profile.age', 25);
+   * ```
+   */
+  setValue(path: string, value: unknown): this {
+    data_set(this._data as Record<string, unknown>, path, value);
+    this.handleWildcards();
+    this._syncInputs();
+    return this;
+  }
+
+  /**
+   * Validate a single input against the form data.
+   * @returns Whether the input passes, false when not found
+   */
+  validateInput(name: string): boolean {
+    const input = this.get(name);
+    if (!input) {
+      return false;
+    }
+    return this._bindContext(input)
+      .fill(data_get(this._data as object, name))
+      .valid();
+  }
+
+  /**
+   * Asynchronous version of validateInput(), to use when the input has asynchronous rules.
+   */
+  async validateInputAsync(name: string): Promise<boolean> {
+    const input = this.get(name);
+    if (!input) {
+      return false;
+    }
+    return this._bindContext(input)
+      .fill(data_get(this._data as object, name))
+      .validAsync();
+  }
+
+  /**
+   * Mark the form as submitted, the inputs with the lazy trigger are then validated on change and blur.
+   */
+  markSubmitted(submitted = true): this {
+    this._submitted = submitted;
+    this._inputs.forEach((input) => input.markSubmitted(submitted));
+    return this;
+  }
+
+  /**
+   * Check if the form was submitted since its creation or its last reset
+   */
+  get submitted() {
+    return this._submitted;
+  }
+
+  /**
+   * Get the values returned by the rules of the inputs that passed the last validation, nested
+   * like the form data. Wildcard items keep their index, so a failed item leaves a hole in the array.
+   * @example
+   * ```typescript
+   * form({ birthday: 'date', 'tags.*': 'string' }, data).validatedData();
+   * // { birthday: '2000-01-01T00:00:00.000Z', tags: ['a', 'b'] }
+   * ```
+   */
+  validatedData(): DeepPartial<T> {
+    const data: Record<string, unknown> = {};
+    const names = this._inputs.map((input) => input.getName());
+    for (const input of this._inputs) {
+      if (!input.hasPassed()) {
+        continue;
+      }
+      const name = input.getName();
+      const value = input.getValidatedValue();
+      // The nested inputs give the values of a parent, not its raw value
+      const hasChildren = names.some((n) => n.startsWith(`${name}.`));
+      if (hasChildren && value !== null && typeof value === 'object') {
+        if (data_get(data, name) === null) {
+          data_set(data, name, Array.isArray(value) ? [] : {});
+        }
+        continue;
+      }
+      data_set(data, name, value);
+    }
+    return data as DeepPartial<T>;
+  }
+
+  /**
+   * Validate the form and get its validated data, or its errors.
+   */
+  safeParse(): SafeParseResult<T> {
+    return this._parseResult(this.isValid());
+  }
+
+  /**
+   * Asynchronous version of safeParse(), to use when some inputs have asynchronous rules.
+   */
+  async safeParseAsync(): Promise<SafeParseResult<T>> {
+    return this._parseResult(await this.isValidAsync());
+  }
+
+  private _parseResult(success: boolean): SafeParseResult<T> {
+    if (success) {
+      return { success, data: this.validatedData() as T };
+    }
+    return { success, data: this.validatedData(), errors: this._errors() };
+  }
+
+  /**
+   * Bind the form to a form element: the values are read from its elements, and the messages
+   * written in its feedback elements.
+   * @param element - The form element, or its selector
+   * @example
+   * ```typescript
+   * form.bind('#signup', { onSubmit: (form) => api.post('/users', form.validatedData()) });
+   * ```
+   */
+  bind(element: CssSelector, options?: FormBindingOptions<T, D>) {
+    const binding = new FormBinding<T, D>(this, element, options);
+    this._root = binding.element;
+    return binding.bind();
+  }
+
+  /**
+   * Give the input access to the form data, so that its rules can read the other fields
+   */
+  private _bindContext(input: InputValidator) {
+    const root = this._root;
+    const selector = this.parameter.getInputSelector(input.getName());
+    return input.setContext({
+      data: this._data as Record<string, unknown>,
+      path: input.getName(),
+      attribute: (path) => this.get(path)?.getMessageAttributeName() ?? path,
+      hasField: (path) => this.has(path),
+      dateFormat: this.config.dateFormat,
+      timezone: this.config.timezone,
+      // Looked up when a rule reads it
+      get element() {
+        if (!selector || typeof document === 'undefined') {
+          return null;
+        }
+        const element = getHTMLElementBySelector(selector, root);
+        return element instanceof HTMLElement ? element : null;
+      },
+    });
+  }
+
   protected setConfig(config?: FormConfig) {
     let lang = 'en';
     if (config && typeof config === 'object') {
@@ -129,12 +494,28 @@ export class FormValidator<T = unknown> {
    * Attach a callback that to be executed when the validation passes.
    *
    */
-  on(e: GroupHooks, fn: FormHandler): void {
+  on(e: GroupHooks, fn: FormHandler) {
     this._addEvents(e, fn);
+    return () => {
+      this.off(e, fn);
+    };
+  }
+
+  /**
+   * Remove a callback attached to an event
+   */
+  off(e: GroupHooks, fn: FormHandler): this {
+    if (this._lifeCycleCallbacks[e]) {
+      this._lifeCycleCallbacks[e] = this._lifeCycleCallbacks[e].filter(
+        (callback) => callback !== fn,
+      );
+    }
+    return this;
   }
 
   /**
    * Attaches a callback  that will be executed when the validation fails occurs.
+   * @returns A function removing the callback
    * Example:
    * ```typescript
    * formValidator.onFails((formValidator) => {
@@ -142,14 +523,15 @@ export class FormValidator<T = unknown> {
    * });
    * ```
    */
-  onFails(fn: FormHandler): void {
-    this.on('form.fails', fn);
+  onFails(fn: FormHandler) {
+    return this.on('form.fails', fn);
   }
 
   /**
    * Attaches an event listener to the "tr.form.passes" event.
    * This event is triggered when the form passes validation.
    * @param fn - The callback function to execute when the event occurs.
+   * @returns A function removing the callback
    * Example:
    * ```typescript
    * formValidator.onPasses((formValidator) => {
@@ -157,14 +539,15 @@ export class FormValidator<T = unknown> {
    * });
    * ```
    */
-  onPasses(fn: FormHandler): void {
-    this.on('form.passes', fn);
+  onPasses(fn: FormHandler) {
+    return this.on('form.passes', fn);
   }
 
   /**
    * Attaches an event listener to the "tr.form.validate" event.
    * This event is triggered when the form is validated.
    * @param fn - The callback function to execute when the event occurs.
+   * @returns A function removing the callback
    * Example:
    * ```typescript
    * formValidator.onValidate((formValidator) => {
@@ -172,8 +555,16 @@ export class FormValidator<T = unknown> {
    * });
    * ```
    */
-  onValidate(fn: FormHandler): void {
-    this.on('form.validated', fn);
+  onValidate(fn: FormHandler) {
+    return this.on('form.validated', fn);
+  }
+
+  /**
+   * Run a callback when the form is reset
+   * @returns A function removing the callback
+   */
+  onReset(fn: FormHandler) {
+    return this.on('form.reset', fn);
   }
 
   /**
@@ -268,7 +659,9 @@ export class FormValidator<T = unknown> {
     );
 
     this._inputs.push(inputInstance);
-    this.setValidity();
+    this._initInput(inputInstance);
+    inputInstance.markSubmitted(this._submitted);
+    this.setValidity(inputInstance);
     return this;
   }
   /**
@@ -302,23 +695,22 @@ export class FormValidator<T = unknown> {
     if (typeof input != 'object' || input === null) {
       throw new Error('Invalid arguments passed to make method');
     }
+    if (input instanceof ObjectSchema) {
+      input = input.compile();
+    }
     transformToArray(input, this._bootInputs.bind(this));
     return this;
   }
   /**
-   * Set the validity state of the FormValidator.
-   * @param boolean The boolean value indicating the validity state to set.
-   * @remarks This method updates the internal validity state of the FormValidator based on the provided boolean value.
-   * It increments the internal counter for the number of times this method is called.
-   * If the validity state changes to true (passed), it triggers the '_emitOnPassesEvent' event.
-   * If the validity state changes to false (failed), it triggers the '_emitOnFailsEvent' event.
-   * Finally, it emits a 'tr.form.validate' event with the updated FormValidator instance.
+   * Propagate the validation of an input to the form, by emitting the form.validated event.
+   * @param input The input added to the form.
    */
-  private setValidity() {
-    this.each((input) => {
-      input.onValidate(() => {
+  private setValidity(input: InputValidator) {
+    input.onValidate(() => {
+      this._externalErrors.forget(input.getName());
+      if (!this._validating) {
         this._executeLifeCycleCallbacks('form.validated');
-      });
+      }
     });
   }
 
@@ -352,11 +744,18 @@ export class FormValidator<T = unknown> {
   }
 
   private _bootInputs(
-    param: InputParms | string | string[],
+    param: InputParms | string | string[] | Schema,
     indexOrName?: string | number,
   ) {
     let inputParam: InputParms;
 
+    if (param instanceof Schema) {
+      if (typeof indexOrName !== 'string') {
+        throw new Error('A schema must be given with the input name as key');
+      }
+      transformToArray(param.compile(indexOrName), this._bootInputs.bind(this));
+      return;
+    }
     if (typeof param === 'string' || Array.isArray(param)) {
       inputParam = {
         name: indexOrName as string,
@@ -376,28 +775,111 @@ export class FormValidator<T = unknown> {
       });
       this.handleWildcards();
     } else {
-      this.addInput(new InputValidator(this._bag, inputParam, this.parameter));
+      this.addInput(
+        new InputValidator(
+          this._bag,
+          this._withDefaults(inputParam),
+          this.parameter,
+        ),
+      );
     }
 
     return inputParam;
   }
 
+  /**
+   * Create an input for each item matching a wildcard pattern, like `orders.*.items.*.sku`, and
+   * remove the inputs of the array items that no longer exist. The items of an object keep their
+   * input when their key is removed, so they are reported as missing.
+   */
   private handleWildcards() {
     for (const wildcard of this.wildcardPattern) {
-      const [name] = wildcard.name.split('.*');
-      const data = data_get(this._data as object, name);
-      if (typeof data === 'object' && data) {
-        const keys = Object.keys(data);
-        for (const key of keys) {
-          wildcard.input.name = `${name}.${key}`;
-          this.addInput(
-            new InputValidator(this._bag, wildcard.input, this.parameter),
-          );
+      const items = this._expandWildcard(wildcard.name);
+      const paths = new Set(items.map((item) => item.path));
+
+      this._expanded.forEach((expanded, path) => {
+        if (
+          expanded.pattern === wildcard.name &&
+          expanded.array &&
+          !paths.has(path)
+        ) {
+          this.remove(path);
+          this._expanded.delete(path);
         }
+      });
+
+      for (const item of items) {
+        // The existing items keep their state, like touched
+        if (this.has(item.path)) {
+          continue;
+        }
+        this._expanded.set(item.path, {
+          pattern: wildcard.name,
+          array: item.array,
+        });
+        this.addInput(
+          new InputValidator(
+            this._bag,
+            this._withDefaults({ ...wildcard.input, name: item.path }),
+            this.parameter,
+          ),
+        );
       }
     }
   }
 
+  /**
+   * Get the paths of the data matching a wildcard pattern
+   * @returns The paths, and whether a wildcard went through an array
+   */
+  private _expandWildcard(pattern: string) {
+    let items: { path: string; value: unknown; array: boolean }[] = [
+      { path: '', value: this._data, array: false },
+    ];
+    for (const segment of pattern.split('.')) {
+      const next: typeof items = [];
+      for (const item of items) {
+        const prefix = item.path ? `${item.path}.` : '';
+        const value = item.value as Record<string, unknown> | null;
+        if (segment !== '*') {
+          next.push({
+            path: `${prefix}${segment}`,
+            value: value && typeof value === 'object' ? value[segment] : null,
+            array: item.array,
+          });
+          continue;
+        }
+        if (value && typeof value === 'object') {
+          // The keys come from the data, they can't reach the prototypes
+          Object.keys(value)
+            .filter((key) => !isUnsafeKey(key))
+            .forEach((key) => {
+              next.push({
+                path: `${prefix}${key}`,
+                value: value[key],
+                array: item.array || Array.isArray(value),
+              });
+            });
+        }
+      }
+      items = next;
+    }
+    return items;
+  }
+
+  /**
+   * Give the debounce, throttle and trigger of the form config to an input without its own
+   */
+  private _withDefaults(param: InputParms): InputParms {
+    const { debounce, throttle, trigger } = this.config;
+    return {
+      debounce,
+      throttle,
+      trigger,
+      ...param,
+    };
+  }
+
   /**
    * Adds a lifecycle callback to the specified lifecycle event.
    * @param name - The name of the lifecycle event.
@@ -420,7 +902,8 @@ export class FormValidator<T = unknown> {
   private _executeLifeCycleCallbacks(name: string): void {
     const callbacks = this._lifeCycleCallbacks[name];
     if (callbacks) {
-      transformToArray(callbacks, (fn) => {
+      // Copy, a callback can remove itself
+      transformToArray(callbacks.slice(), (fn) => {
         this.__call(fn, this);
       });
     }
@@ -444,36 +927,103 @@ export class FormValidator<T = unknown> {
     }
     return this;
   }
+  /**
+   * Restore the data of the snapshot and forget the validation: the inputs are then pristine and
+   * untouched, and the form not submitted.
+   */
   reset(): this {
+    this._data = data_clone(this._initialData);
+    this.handleWildcards();
+    this._submitted = false;
+    this._externalErrors = new ErrorBag();
+    this._emitOnPasses = true;
+    this._emitOnFails = true;
     this.each((input) => {
-      input.setValue(undefined);
+      input.reset();
     });
+    this._executeLifeCycleCallbacks('form.reset');
     return this;
   }
   clear(): this {
     this.destroy();
     return this;
   }
-  copy(): FormValidator<T> {
-    const form = new FormValidator<T>([], this._data, this._bag, this.config);
+  copy(): FormValidator<T, D> {
+    const form = new FormValidator<T, D>(
+      [],
+      this._data,
+      this._bag,
+      this.config,
+    );
     this._inputs.forEach((input) => {
       form.addInput(input);
     });
     return form;
   }
-  with(callback: (form: FormValidator<T>) => boolean): this {
-    this._withCallbacks.push(callback as (form: FormValidator<T>) => boolean);
+  with(callback: (form: FormValidator<T, D>) => boolean): this {
+    this._withCallbacks.push(
+      callback as (form: FormValidator<T, D>) => boolean,
+    );
     return this;
   }
 
-  get errors(): Record<string, string | null | undefined> {
-    const errors = {} as Record<string, string>;
-    for (const input of this.failed()) {
-      errors[input.getName()] = transformToArray(input.errors, (err) => err)[0];
+  /**
+   * Get every error message of the last validation, and the errors set with setErrors().
+   */
+  get errors(): ErrorBag {
+    const errors = this._errors();
+    if (!this.config.touchedOnly || this._submitted) {
+      return errors;
     }
+    const hidden = errors.keys().filter((name) => !this.showsErrorsOf(name));
+    hidden.forEach((name) => errors.forget(name));
     return errors;
   }
 
+  private _errors(): ErrorBag {
+    const errors = new ErrorBag();
+    // Read the result of the last validation, re-running it would drop asynchronous results
+    for (const input of this._inputs) {
+      for (const rx of input.getRuleExecuted()) {
+        if (rx.passed || rx.pending || !rx.message) {
+          continue;
+        }
+        errors.add(
+          input.getName(),
+          rx.orignalName,
+          rx.message,
+          rx.params,
+          input.getValue(),
+        );
+        // A rule run on the items or the keys of the value also reports an error for each of them
+        Object.entries(rx.items).forEach(([path, item]) => {
+          errors.add(
+            `${input.getName()}.${path}`,
+            item.rule,
+            item.message ?? '',
+            item.params,
+            item.value,
+          );
+        });
+      }
+    }
+    return errors.merge(this._externalErrors);
+  }
+
+  /**
+   * Display errors coming from a server response through the errors bag. The errors of an
+   * input are kept until it is validated again.
+   * @param errors - An error bag, a Problem Details object, a JSON:API document, or an `errors` object keyed by path
+   * @param options - The `pointerPrefix` of the JSON:API pointers
+   */
+  setErrors(errors: unknown, options?: ErrorSerializerOptions): this {
+    this._externalErrors =
+      errors instanceof ErrorBag
+        ? errors
+        : ErrorBag.fromResponse(errors, options);
+    return this;
+  }
+
   value(name: string, defaultValue?: unknown) {
     return this.get(name)?.value ?? defaultValue;
   }
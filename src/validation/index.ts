@@ -5,3 +5,5 @@ export * from './validation';
 export * from './bag';
 
 export * from './utils/rule-executed';
+export * from './utils/error-bag';
+export * from './utils/error-serializer';
@@ -1,14 +1,17 @@
 import {
+  AnyRuleCallBack,
   InputType,
   InputInterface,
   InputCallback,
-  RuleCallBack,
   RuleOptions,
   RuleParam,
+  RuleHookCallback,
+  RuleHookEvent,
   Hooks,
   InputParms,
   InputValueType,
 } from '../contracts';
+import { data_clone, getRule } from '../utils';
 import { AbstractInputralidator } from './abstract-input';
 import { Bag } from './bag';
 import { TrParameter } from './utils/parameter';
@@ -19,7 +22,7 @@ export class InputValidator extends AbstractInputralidator {
     super(bag, param, parameter);
   }
 
-  rule(ruleName: string, call: RuleCallBack, message?: string) {
+  rule(ruleName: string, call: AnyRuleCallBack, message?: string) {
     this._bag.rule(ruleName, call, message);
   }
 
@@ -31,26 +34,63 @@ export class InputValidator extends AbstractInputralidator {
     return this.name === inputName;
   }
 
+  /**
+   * Run a callback when the input starts failing (first validation or pass→fail transition)
+   * @returns A function removing the callback
+   */
   onFails(fn: InputCallback<InputInterface>) {
-    this.addHook('input.fails', fn);
+    return this.addHook('input.fails', fn);
   }
 
+  /**
+   * Run a callback when the input starts passing (first validation or fail→pass transition)
+   * @returns A function removing the callback
+   */
   onPasses(fn: InputCallback<InputInterface>) {
-    this.addHook('input.valid', fn);
+    return this.addHook('input.valid', fn);
   }
 
+  /**
+   * Run a callback each time the value is changed with setValue
+   * @returns A function removing the callback
+   */
   onUpdate(fn: InputCallback<InputInterface>) {
-    this.addHook('input.updated', fn);
+    return this.addHook('input.updated', fn);
   }
 
+  /**
+   * Run a callback after each validation
+   * @returns A function removing the callback
+   */
   onValidate(fn: InputCallback<InputInterface>) {
-    this.addHook('input.validated', fn);
+    return this.addHook('input.validated', fn);
+  }
+
+  /**
+   * Run a callback when the input is destroyed
+   * @returns A function removing the callback
+   */
+  onDestroy(fn: InputCallback<InputInterface>) {
+    return this.addHook('destroy', fn);
+  }
+
+  /**
+   * Remove a callback attached to a hook
+   */
+  off(hook: Hooks, fn: InputCallback<InputInterface>): this {
+    if (this.hooks[hook]) {
+      this.hooks[hook] = this.hooks[hook].filter((callback) => callback !== fn);
+    }
+    return this;
   }
 
   destroy() {
+    this.cancelScheduled();
     this.rules.clear();
     this.param.rules = [];
     this.executeHooks('destroy');
+    this.hooks = {} as Record<Hooks, InputCallback<InputInterface>[]>;
+    this._ruleHooks.clear();
   }
 
   is(name: string) {
@@ -58,8 +98,25 @@ export class InputValidator extends AbstractInputralidator {
   }
 
   private hooks = {} as Record<Hooks, InputCallback<InputInterface>[]>;
+
+  /**
+   * The rule hooks added for each callback, to remove them with offRule()
+   */
+  private _ruleHooks = new Map<
+    RuleHookCallback,
+    { name: string; hook: InputCallback<RuleHookEvent> }[]
+  >();
   _validateCount = 0;
 
+  /**
+   * Check if the input.valid hook can be executed
+   */
+  private _emitOnPasses = true;
+  /**
+   * Check if the input.fails hook can be executed
+   */
+  private _emitOnFails = true;
+
   validate() {
     return this.valid();
   }
@@ -79,10 +136,84 @@ export class InputValidator extends AbstractInputralidator {
   valid() {
     this.validator.value = this.value;
     const passed = this.validator.passes();
-    this.validator.getErrors();
+    this._afterValidation(passed);
+    return passed;
+  }
+
+  /**
+   * Validate the input, waiting for asynchronous rules to settle.
+   * Setting a new value while a run is in progress makes that run stale, so only the latest run is kept.
+   */
+  async validAsync(): Promise<boolean> {
+    const passed = await this.validator.fill(this.value).validateAsync();
+    // Another run is in progress, it will execute the hooks once settled
+    if (!this.validator.pending) {
+      this._afterValidation(passed);
+    }
     return passed;
   }
 
+  /**
+   * Execute the validation hooks. Like the form.passes/form.fails events, input.valid and
+   * input.fails are only executed when the validation state changes.
+   */
+  private _afterValidation(passed: boolean) {
+    this._passed = passed;
+    this.executeHooks('input.validated');
+    if (this.validator.pending) {
+      return;
+    }
+    if (passed && this._emitOnPasses) {
+      this._emitOnPasses = false;
+      this._emitOnFails = true;
+      this.executeHooks('input.valid');
+    } else if (!passed && this._emitOnFails) {
+      this._emitOnFails = false;
+      this._emitOnPasses = true;
+      this.executeHooks('input.fails');
+    }
+  }
+
+  validateAsync() {
+    return this.validAsync();
+  }
+
+  /**
+   * Wait for the asynchronous rules left pending by valid(), then execute the validation hooks.
+   * @returns A promise resolving to true if the input passed once every rule settled
+   */
+  async settle(): Promise<boolean> {
+    const pending = this.validator.pending;
+    const passed = await this.validator.settle();
+    // Another run is in progress, it will execute the hooks once settled
+    if (pending && !this.validator.pending) {
+      this._afterValidation(passed);
+    }
+    return passed;
+  }
+
+  /**
+   * Validate the input once its debounce or throttle delay is over
+   */
+  private _validateScheduled() {
+    this.validate();
+    this.settle().catch(() => undefined);
+  }
+
+  /**
+   * Check if an asynchronous rule result is still awaited
+   */
+  get pending() {
+    return this.validator.pending;
+  }
+
+  /**
+   * Check if a rule returned a promise in a previous validation, see validAsync()
+   */
+  hasAsyncRules(): boolean {
+    return this.validator.hasAsyncRules();
+  }
+
   getErrors(): Record<string, string> {
     return this.errors;
   }
@@ -123,38 +254,109 @@ export class InputValidator extends AbstractInputralidator {
   }
 
   setValue(value: InputValueType): this {
-    this.value = value;
+    const updated = value !== this._value;
+    this._value = value;
+    if (updated) {
+      this._changed = true;
+      this.executeHooks('input.updated');
+    }
+    if (this.validatesOn('onChange')) {
+      this.schedule(() => this._validateScheduled());
+    }
     return this;
   }
 
-  setType(type: string): this {
-    this._type = type as InputType;
+  /**
+   * Restore the initial value and forget the last validation, the input is then pristine and untouched
+   */
+  reset(): this {
+    this.cancelScheduled();
+    this._value = data_clone(this._initialValue);
+    this._changed = false;
+    this._touched = false;
+    this._submitted = false;
+    this._passed = false;
+    this._emitOnPasses = true;
+    this._emitOnFails = true;
+    this.validator.reset();
     return this;
   }
 
-  beforeRunRule(rule: string, callback: InputCallback<InputInterface>): this {
-    this.rules.addHook(`before.${rule}.run`, callback);
+  /**
+   * Mark the input touched when it loses the focus, and validate it if it is validated on blur
+   */
+  blur(): this {
+    this.touch();
+    if (this.validatesOn('onBlur')) {
+      this.schedule(() => this._validateScheduled());
+    }
     return this;
   }
 
-  afterRunRule(rule: string, callback: InputCallback<InputInterface>): this {
-    this.rules.addHook(`after.${rule}.run`, callback);
+  /**
+   * Set the value without running the validation
+   */
+  fill(value: InputValueType): this {
+    this._value = value;
     return this;
   }
 
-  onRuleFails(
-    rule: RuleOptions,
-    callback: InputCallback<InputInterface>,
-  ): this {
-    this.rules.addHook(`after.${rule}.fails`, callback);
+  setType(type: string): this {
+    this._type = type as InputType;
     return this;
   }
 
-  onRulePasses(
-    rule: RuleOptions,
-    callback: InputCallback<InputInterface>,
+  /**
+   * Run a callback before the rule runs. The callback can replace `event.value` or call `event.skip()`
+   */
+  beforeRunRule(rule: string, callback: RuleHookCallback): this {
+    return this._addRuleHook('before', rule, 'run', callback);
+  }
+
+  /**
+   * Run a callback after the rule ran, `event.executed` holds the result
+   */
+  afterRunRule(rule: string, callback: RuleHookCallback): this {
+    return this._addRuleHook('after', rule, 'run', callback);
+  }
+
+  onRuleFails(rule: RuleOptions, callback: RuleHookCallback): this {
+    return this._addRuleHook('after', rule, 'fails', callback);
+  }
+
+  onRulePasses(rule: RuleOptions, callback: RuleHookCallback): this {
+    return this._addRuleHook('after', rule, 'passes', callback);
+  }
+
+  private _addRuleHook(
+    moment: 'before' | 'after',
+    rule: RuleOptions | string,
+    event: 'run' | 'fails' | 'passes',
+    callback: RuleHookCallback,
   ): this {
-    this.rules.addHook(`after.${rule}.passes`, callback);
+    const rules = Array.isArray(rule) ? rule : [rule];
+    const added = this._ruleHooks.get(callback) ?? [];
+    for (const r of rules) {
+      if (typeof r === 'string') {
+        const { ruleName } = getRule(r);
+        const name = `${moment}.${ruleName}.${event}`;
+        const hook = (details: RuleHookEvent) => callback(details, this);
+        this.rules.addHook(name, hook);
+        added.push({ name, hook });
+      }
+    }
+    this._ruleHooks.set(callback, added);
+    return this;
+  }
+
+  /**
+   * Remove a callback added with beforeRunRule, afterRunRule, onRuleFails or onRulePasses
+   */
+  offRule(callback: RuleHookCallback): this {
+    this._ruleHooks
+      .get(callback)
+      ?.forEach(({ name, hook }) => this.rules.removeHook(name, hook));
+    this._ruleHooks.delete(callback);
     return this;
   }
 
@@ -167,7 +369,7 @@ export class InputValidator extends AbstractInputralidator {
     rule: string;
     message?: string | null;
     param?: RuleParam;
-    validate?: RuleCallBack;
+    validate?: AnyRuleCallBack;
     local?: string;
   }): this {
     this.appendRule(rule);
@@ -182,7 +384,7 @@ export class InputValidator extends AbstractInputralidator {
     rule: string;
     message?: string | null;
     param?: RuleParam;
-    validate?: RuleCallBack;
+    validate?: AnyRuleCallBack;
     local?: string;
   }): this {
     this.rules.append(
@@ -199,7 +401,7 @@ export class InputValidator extends AbstractInputralidator {
     rule: string;
     message?: string | null;
     param?: RuleParam;
-    validate?: RuleCallBack;
+    validate?: AnyRuleCallBack;
     local?: string;
   }): this {
     this.$rules.prepend(
@@ -212,17 +414,21 @@ export class InputValidator extends AbstractInputralidator {
     return this;
   }
 
-  private addHook(hook: Hooks, callback: InputCallback<InputInterface>): void {
+  private addHook(hook: Hooks, callback: InputCallback<InputInterface>) {
     if (!this.hooks[hook]) {
       this.hooks[hook] = [];
     }
     this.hooks[hook].push(callback);
+    return () => {
+      this.off(hook, callback);
+    };
   }
 
   private executeHooks(hook: Hooks): void {
     const callbacks = this.hooks[hook];
     if (callbacks) {
-      callbacks.forEach((callback) => callback(this));
+      // Copy, a callback can remove itself
+      callbacks.slice().forEach((callback) => callback(this));
     }
   }
 }
@@ -1,4 +1,8 @@
 import {
+  AnyRuleCallBack,
+  CssSelector,
+  FormInput,
+  FormOutput,
   MakeInput,
   FormConfig,
   InputParms,
@@ -6,11 +10,15 @@ import {
   RuleParam,
   RuleCallBack,
   RulesMessages,
+  ScanOptions,
+  ValidationState,
 } from '../contracts';
 import { FormValidator } from './form-validator';
 import { InputValidator } from './input-validator';
 import { Local } from '../locale/local';
 import { Message, Bag } from './bag';
+import { FormBinding, scanInputs } from '../dom';
+import { getHTMLElementBySelector } from '../utils';
 
 export class Jevalide {
   private static instance: Jevalide;
@@ -19,6 +27,7 @@ export class Jevalide {
   private readonly trLocal: Local;
   private readonly _bag: Bag;
   private readonly Message: Message;
+  private _localeCallbacks: ((locale: string) => unknown)[] = [];
 
   private static localLanguage: string = 'en';
 
@@ -30,6 +39,14 @@ export class Jevalide {
     this.Message = new Message(this.trLocal);
   }
 
+  /**
+   * Returns the Jevalide singleton instance, unlike init() the locale is kept
+   * @returns The Jevalide instance
+   */
+  public static getInstance(): Jevalide {
+    return Jevalide.instance ?? Jevalide.init();
+  }
+
   /**
    * Initializes or returns the Jevalide singleton instance
    * @param params - Optional initialization parameters
@@ -39,7 +56,7 @@ export class Jevalide {
    * @returns The Jevalide instance
    */
   public static init(params?: {
-    rules?: Record<string, RuleCallBack>;
+    rules?: Record<string, AnyRuleCallBack>;
     messages?: Record<string, string>;
     local?: string;
   }): Jevalide {
@@ -76,16 +93,64 @@ export class Jevalide {
    * @param inputs - Form input definitions
    * @param data - Form data to validate
    * @param config - Optional form configuration
+   * @remarks Without explicit type argument, the data type is inferred from the inputs rules
    */
-  form<T>(inputs: MakeInput, data: Partial<T>, config?: FormConfig) {
+  form<T = never, const I extends MakeInput = MakeInput>(
+    inputs: I,
+    data: NoInfer<FormInput<T>>,
+    config?: FormConfig,
+  ): FormValidator<FormOutput<T, I>, NoInfer<FormInput<T>>> {
     const instance = Jevalide.instance;
-    const validator = new FormValidator<T>(inputs, data, instance._bag, config);
+    const validator = new FormValidator<FormOutput<T, I>, FormInput<T>>(
+      inputs,
+      data,
+      instance._bag,
+      config,
+    );
     if (config?.name) {
       instance.forms.set(config.name, validator as FormValidator);
     }
     return validator;
   }
 
+  /**
+   * Builds the inputs of a form element from the data-tr-* attributes of its elements
+   * @param element - The form element, or its selector
+   * @param options - With `native`, the HTML constraints are mapped to rules
+   */
+  scan(element: CssSelector, options?: ScanOptions) {
+    return scanInputs(Jevalide._formElement(element), options);
+  }
+
+  /**
+   * Creates a form validator from the data-tr-* attributes of a form element, filled with the
+   * values of its elements
+   * @param element - The form element, or its selector
+   * @param options - The scan options, and the form configuration
+   */
+  fromHtml(
+    element: CssSelector,
+    options?: ScanOptions & { config?: FormConfig },
+  ) {
+    const formElement = Jevalide._formElement(element);
+    const validator = this.form(
+      scanInputs(formElement, options),
+      {},
+      options?.config,
+    );
+    new FormBinding(validator, formElement).sync();
+    validator.snapshot();
+    return validator;
+  }
+
+  private static _formElement(element: CssSelector): HTMLFormElement {
+    const formElement = getHTMLElementBySelector(element);
+    if (!(formElement instanceof HTMLFormElement)) {
+      throw new Error('The form element to scan was not found');
+    }
+    return formElement;
+  }
+
   /**
    * Creates an input validator instance
    * @param params - Input validator parameters
@@ -93,8 +158,15 @@ export class Jevalide {
   input(params: InputParms) {
     const instance = Jevalide.instance;
     const validator = new InputValidator(instance._bag, params);
-    if (params.name) {
-      instance.inputs.set(params.name, validator);
+    const name = params.name;
+    if (name) {
+      instance.inputs.set(name, validator);
+      // Forget the input once destroyed, e.g. by the v-jevalide directive
+      validator.onDestroy(() => {
+        if (instance.inputs.get(name) === validator) {
+          instance.inputs.delete(name);
+        }
+      });
     }
     return validator;
   }
@@ -115,6 +187,22 @@ export class Jevalide {
     return rule(input, param, type);
   }
 
+  /**
+   * Runs a validation rule on a specific input, waiting for asynchronous rules to settle
+   * @param ruleName - Name of the validation rule
+   * @param input - Input value to validate
+   * @param param - Optional rule parameters
+   * @param type - Optional input type
+   */
+  async runAsync(
+    ruleName: string,
+    input: unknown,
+    param?: RuleParam,
+    type?: InputType,
+  ): Promise<ValidationState> {
+    return this.run(ruleName, input, param, type);
+  }
+
   /**
    * Adds a custom validation rule
    * @param ruleName - Name of the rule
@@ -124,7 +212,7 @@ export class Jevalide {
    */
   rule(
     ruleName: string,
-    callback: RuleCallBack,
+    callback: AnyRuleCallBack,
     message?: string,
     locale?: string,
   ) {
@@ -174,7 +262,25 @@ export class Jevalide {
    * @param locale - Locale to set
    */
   setLocale(locale: string): void {
+    const previous = this.getLocale();
     this.trLocal.local(locale);
+    if (this.getLocale() !== previous) {
+      // Copy, a callback can remove itself
+      this._localeCallbacks.slice().forEach((fn) => fn(this.getLocale()));
+    }
+  }
+
+  /**
+   * Run a callback when the locale is changed with setLocale()
+   * @returns A function removing the callback
+   */
+  onLocaleChange(fn: (locale: string) => unknown): () => void {
+    this._localeCallbacks.push(fn);
+    return () => {
+      this._localeCallbacks = this._localeCallbacks.filter(
+        (callback) => callback !== fn,
+      );
+    };
   }
 
   /**
@@ -250,7 +356,7 @@ export class Jevalide {
    * Sets multiple validation rules at once
    * @param rules - Object containing rule names as keys and rule callbacks as values
    */
-  setRules(rules: Record<string, RuleCallBack>) {
+  setRules(rules: Record<string, AnyRuleCallBack>) {
     if (!rules || typeof rules !== 'object') {
       throw new Error(
         'Rules must be a valid object with rule names as keys and callbacks as values',
@@ -267,9 +373,13 @@ export class Jevalide {
     return this;
   }
 
-  static validate<T>(data: Partial<T>, inputs: MakeInput, config?: FormConfig) {
+  static validate<T = never, const I extends MakeInput = MakeInput>(
+    data: NoInfer<FormInput<T>>,
+    inputs: I,
+    config?: FormConfig,
+  ) {
     const instance = Jevalide.instance;
-    return instance.form(inputs, data, config);
+    return instance.form<T, I>(inputs, data, config);
   }
 
   static setGlobalLocale(locale: string) {
@@ -0,0 +1,213 @@
+import {
+  ErrorItem,
+  ErrorSerializerOptions,
+  JsonApiErrorDocument,
+  ProblemDetails,
+  RuleParam,
+} from '../../contracts';
+import { data_set, isUnsafeKey, matchesPath } from '../../utils';
+import { ErrorSerializer } from './error-serializer';
+
+/**
+ * Holds every error message of a form, keyed by input path and rule name.
+ * The paths given to the query methods can contain `*` wildcards, e.g. `items.*.price`.
+ * @example
+ * ```typescript
+ * form.errors.first('email');
+ * form.errors.get('items.*.price');
+ * form.errors.toNested(); // { items: [{ price: ['The price field is required'] }] }
+ * ```
+ */
+export class ErrorBag {
+  private _items: ErrorItem[] = [];
+
+  constructor(items: ErrorItem[] = []) {
+    this._items = items
+      .filter((item) => isSafePath(item.path))
+      .map((item) => ({ ...item }));
+  }
+
+  /**
+   * Create an error bag from a server response: a Problem Details object, a JSON:API
+   * document, or an `errors` object keyed by path.
+   * @param options - The `pointerPrefix` of the JSON:API pointers
+   */
+  static fromResponse(
+    response: unknown,
+    options?: ErrorSerializerOptions,
+  ): ErrorBag {
+    return new ErrorBag(new ErrorSerializer(options).parse(response));
+  }
+
+  /**
+   * Add an error message, replacing the message of the same rule for the path.
+   * @param params - The rule parameters
+   * @param value - The rejected value
+   */
+  add(
+    path: string,
+    rule: string,
+    message: string,
+    params?: RuleParam,
+    value?: unknown,
+  ): this {
+    if (!isSafePath(path)) {
+      return this;
+    }
+    this.forget(path, rule);
+    const item: ErrorItem = { path, rule, message };
+    if (params !== undefined) {
+      item.params = params;
+    }
+    if (value !== undefined) {
+      item.value = value;
+    }
+    this._items.push(item);
+    return this;
+  }
+
+  /**
+   * Add the errors of another bag.
+   */
+  merge(errors: ErrorBag): this {
+    errors.items().forEach((item) => {
+      this.add(item.path, item.rule, item.message, item.params, item.value);
+    });
+    return this;
+  }
+
+  /**
+   * Remove the errors of a path, or only the error of one of its rules.
+   */
+  forget(path: string, rule?: string): this {
+    this._items = this._items.filter(
+      (item) =>
+        !(matchesPath(path, item.path) && (!rule || item.rule === rule)),
+    );
+    return this;
+  }
+
+  /**
+   * Check if a path has errors, or if the bag has any error without path.
+   */
+  has(path?: string): boolean {
+    return this._filter(path).length > 0;
+  }
+
+  /**
+   * Get the first message of a path, or of the bag without path.
+   */
+  first(path?: string): string | null {
+    return this._filter(path)[0]?.message ?? null;
+  }
+
+  /**
+   * Get every message of a path. A wildcard path gives the messages of all the matching paths.
+   */
+  get(path: string): string[] {
+    return this._filter(path).map((item) => item.message);
+  }
+
+  /**
+   * Get the messages of a path keyed by rule name.
+   */
+  rules(path: string): Record<string, string> {
+    const messages: Record<string, string> = {};
+    for (const item of this._filter(path)) {
+      messages[item.rule] = item.message;
+    }
+    return messages;
+  }
+
+  /**
+   * Get every message of the bag.
+   */
+  all(): string[] {
+    return this._items.map((item) => item.message);
+  }
+
+  /**
+   * Get the paths having errors.
+   */
+  keys(): string[] {
+    return this._items
+      .map((item) => item.path)
+      .filter((path, index, paths) => paths.indexOf(path) === index);
+  }
+
+  /**
+   * Get the error items, with their path, rule and message.
+   */
+  items(): ErrorItem[] {
+    return this._items.map((item) => ({ ...item }));
+  }
+
+  /**
+   * Count the messages of a path, or of the bag without path.
+   */
+  count(path?: string): number {
+    return this._filter(path).length;
+  }
+
+  isEmpty(): boolean {
+    return this._items.length === 0;
+  }
+
+  /**
+   * Get the messages keyed by path.
+   */
+  toObject(): Record<string, string[]> {
+    const errors: Record<string, string[]> = {};
+    for (const path of this.keys()) {
+      errors[path] = this.get(path);
+    }
+    return errors;
+  }
+
+  /**
+   * Get the messages in an object mirroring the data shape, numeric segments give arrays.
+   * When a path has errors and so do its nested paths, the nested errors take its place,
+   * its own messages stay available with get().
+   */
+  toNested(): Record<string, unknown> {
+    const nested: Record<string, unknown> = {};
+    const paths = this.keys().sort(
+      (a, b) => a.split('.').length - b.split('.').length,
+    );
+    for (const path of paths) {
+      const isParent = paths.some((other) => other.startsWith(`${path}.`));
+      if (!isParent && isSafePath(path)) {
+        data_set(nested, path, this.get(path));
+      }
+    }
+    return nested;
+  }
+
+  /**
+   * Serialize the errors to an RFC 9457 Problem Details object.
+   */
+  toProblemDetails(options?: ErrorSerializerOptions): ProblemDetails {
+    return new ErrorSerializer(options).toProblemDetails(this._items);
+  }
+
+  /**
+   * Serialize the errors to a JSON:API error document.
+   */
+  toJsonApi(options?: ErrorSerializerOptions): JsonApiErrorDocument {
+    return new ErrorSerializer(options).toJsonApi(this._items);
+  }
+
+  private _filter(path?: string): ErrorItem[] {
+    if (path === undefined) {
+      return this._items;
+    }
+    return this._items.filter((item) => matchesPath(path, item.path));
+  }
+}
+
+/**
+ * Check that no segment of a path reaches the prototype, the paths can come from a server
+ */
+function isSafePath(path: string) {
+  return !path.split('.').some(isUnsafeKey);
+}
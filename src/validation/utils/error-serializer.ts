@@ -0,0 +1,184 @@
+import {
+  ErrorItem,
+  ErrorSerializerOptions,
+  JsonApiErrorDocument,
+  ProblemDetails,
+  RuleParam,
+} from '../../contracts';
+import { isUnsafeKey, matchesPath } from '../../utils';
+
+/**
+ * Converts error items to the standard error formats used by the APIs, and back.
+ */
+export class ErrorSerializer {
+  private _options: ErrorSerializerOptions;
+
+  constructor(options: ErrorSerializerOptions = {}) {
+    this._options = {
+      status: 422,
+      title: 'The given data was invalid',
+      type: 'about:blank',
+      pointerPrefix: '/data/attributes',
+      ...options,
+    };
+  }
+
+  /**
+   * Build an RFC 9457 Problem Details object, the errors go in the `errors` extension member.
+   */
+  toProblemDetails(items: ErrorItem[]): ProblemDetails {
+    const { type, title, status, detail, instance } = this._options;
+    const problem: ProblemDetails = {
+      type: type as string,
+      title: title as string,
+      status: status as number,
+      errors: items.map((item) => ({
+        pointer: `#${this._pointer(item.path)}`,
+        detail: item.message,
+        ...this._details(item),
+      })),
+    };
+    if (detail) {
+      problem.detail = detail;
+    }
+    if (instance) {
+      problem.instance = instance;
+    }
+    return problem;
+  }
+
+  /**
+   * Build a JSON:API document holding an error object per message.
+   */
+  toJsonApi(items: ErrorItem[]): JsonApiErrorDocument {
+    const { status, title, pointerPrefix } = this._options;
+    return {
+      errors: items.map((item) => ({
+        status: String(status),
+        code: item.rule,
+        title,
+        detail: item.message,
+        source: { pointer: `${pointerPrefix}${this._pointer(item.path)}` },
+        meta: this._details(item),
+      })),
+    };
+  }
+
+  /**
+   * Read the error items of a server response: a Problem Details object, a JSON:API document,
+   * or an `errors` object keyed by path.
+   */
+  parse(response: unknown): ErrorItem[] {
+    const errors = this._isObject(response) ? response.errors : undefined;
+    if (Array.isArray(errors)) {
+      return errors
+        .filter((error) => this._isObject(error))
+        .map((error) => this._parseError(error))
+        .filter((item): item is ErrorItem => item !== null);
+    }
+    const items: ErrorItem[] = [];
+    if (this._isObject(errors)) {
+      for (const path of Object.keys(errors)) {
+        if (!this._isSafePath(path)) {
+          continue;
+        }
+        const value = errors[path];
+        const messages = Array.isArray(value) ? value : [value];
+        messages.forEach((message, index) => {
+          items.push({
+            path,
+            rule: `server${index || ''}`,
+            message: String(message),
+          });
+        });
+      }
+    }
+    return items;
+  }
+
+  private _parseError(error: Record<string, unknown>): ErrorItem | null {
+    const meta = this._isObject(error.meta) ? error.meta : {};
+    const source = this._isObject(error.source) ? error.source : {};
+    const pointer = error.pointer ?? source.pointer;
+    const path =
+      error.path ??
+      meta.path ??
+      (typeof pointer === 'string' ? this._path(pointer) : undefined);
+    const message = error.detail ?? error.message ?? error.title;
+    if (
+      typeof path !== 'string' ||
+      !this._isSafePath(path) ||
+      message === undefined
+    ) {
+      return null;
+    }
+    const item: ErrorItem = {
+      path,
+      rule: String(error.rule ?? meta.rule ?? error.code ?? 'server'),
+      message: String(message),
+    };
+    const params = error.params ?? meta.params;
+    if (params !== undefined) {
+      item.params = params as RuleParam;
+    }
+    return item;
+  }
+
+  private _details(item: ErrorItem) {
+    const details: {
+      path: string;
+      rule: string;
+      params?: RuleParam;
+      value?: unknown;
+    } = { path: item.path, rule: item.rule };
+    if (item.params !== undefined) {
+      details.params = item.params;
+    }
+    if (item.value !== undefined && !this._isRedacted(item.path)) {
+      details.value = item.value;
+    }
+    return details;
+  }
+
+  private _isRedacted(path: string): boolean {
+    const { redact } = this._options;
+    if (Array.isArray(redact)) {
+      return redact.some((pattern) => matchesPath(pattern, path));
+    }
+    return !!redact;
+  }
+
+  /**
+   * Convert a dotted path to a JSON pointer, `items.0.price` gives `/items/0/price`
+   */
+  private _pointer(path: string): string {
+    return path
+      .split('.')
+      .map((segment) => `/${segment.replace(/~/g, '~0').replace(/\//g, '~1')}`)
+      .join('');
+  }
+
+  private _path(pointer: string): string {
+    let path = pointer.replace(/^#/, '');
+    const prefix = this._options.pointerPrefix as string;
+    if (prefix && path.startsWith(`${prefix}/`)) {
+      path = path.slice(prefix.length);
+    }
+    return path
+      .split('/')
+      .filter((segment) => segment !== '')
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .join('.');
+  }
+
+  /**
+   * Check that no segment of a path read from a response reaches the prototype
+   */
+  private _isSafePath(path: string): boolean {
+    return !path.split('.').some(isUnsafeKey);
+  }
+
+  private _isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+  }
+}
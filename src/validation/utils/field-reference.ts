@@ -0,0 +1,114 @@
+import { RuleContext, RuleParam } from '../../contracts';
+import { data_get, spliteParam } from '../../utils';
+
+/**
+ * Resolves the rule parameters that reference another field of the form, e.g. `same:@password`
+ * or `dateBetween:@start_date,@end_date`. A parameter naming neither an input nor a value of the
+ * data is literal, e.g. `endWith:@gmail.com`.
+ */
+export class FieldReference {
+  // A reference is an @ followed by a field path
+  private _pattern = /^@([\w-]+(?:\.[\w*-]+)*)$/;
+
+  constructor(
+    private params: RuleParam,
+    private context?: RuleContext,
+  ) {}
+
+  /**
+   * Check if at least one parameter references a field.
+   */
+  hasReferences(): boolean {
+    return !!this.context && this._parts().some((part) => !!this._path(part));
+  }
+
+  /**
+   * Check if a parameter references a field that is empty or missing, the rule can't be checked.
+   */
+  hasUnresolved(): boolean {
+    return (
+      this.hasReferences() &&
+      this._parts().some((part) => {
+        const path = this._path(part);
+        if (!path) {
+          return false;
+        }
+        const value = data_get(this.context?.data, path);
+        return value === undefined || value === null || value === '';
+      })
+    );
+  }
+
+  /**
+   * Replace each reference with the value of the referenced field.
+   * A parameter made of a single reference keeps the type of the referenced value.
+   * @returns The parameters to give to the rule.
+   */
+  resolve(): RuleParam {
+    if (!this.hasReferences()) {
+      return this.params;
+    }
+    const values = this._parts().map((part) => {
+      const path = this._path(part);
+      return path ? data_get(this.context?.data, path) : part;
+    });
+    if (values.length === 1) {
+      return values[0] as RuleParam;
+    }
+    return values.join(',');
+  }
+
+  /**
+   * Replace each reference with the attribute name of the referenced field.
+   * @returns The parameters to use in the error messages.
+   */
+  describe(): RuleParam {
+    if (!this.hasReferences()) {
+      return this.params;
+    }
+    return this._parts()
+      .map((part) => {
+        const path = this._path(part);
+        if (!path) {
+          return part;
+        }
+        return this.context?.attribute?.(path) ?? path;
+      })
+      .join(',');
+  }
+
+  private _parts() {
+    if (typeof this.params !== 'string') {
+      return [];
+    }
+    return spliteParam(this.params).map((part) => String(part));
+  }
+
+  /**
+   * Get the path referenced by a parameter, with its wildcards replaced by the
+   * indexes of the field being validated: `@items.*.price` on `items.2.discount`
+   * references `items.2.price`.
+   */
+  private _path(part: string): string | null {
+    const match = part.match(this._pattern);
+    if (!match) {
+      return null;
+    }
+    const current = (this.context?.path ?? '').split('.');
+    const path = match[1]
+      .split('.')
+      .map((segment, i) =>
+        segment === '*' && current[i] !== undefined ? current[i] : segment,
+      )
+      .join('.');
+    return this._isField(path) ? path : null;
+  }
+
+  private _isField(path: string): boolean {
+    const missing = {};
+    return (
+      !!this.context?.hasField?.(path) ||
+      data_get(this.context?.data, path, missing) !== missing
+    );
+  }
+}
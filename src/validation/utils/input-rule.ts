@@ -1,10 +1,10 @@
 import {
-  InputInterface,
+  AnyRuleCallBack,
   InputCallback,
   Rule,
-  RuleCallBack,
   RuleMessage,
   RuleNamed,
+  RuleHookEvent,
   RuleParam,
   RuleType,
 } from '../../contracts';
@@ -14,6 +14,7 @@ import { Bag } from '../bag';
 export class InputRule {
   items: RuleType[] = [];
   messages: Record<string, string> = {};
+  hooks: Record<string, InputCallback<RuleHookEvent>[]> = {};
 
   constructor(
     private readonly _bag: Bag,
@@ -63,12 +64,13 @@ export class InputRule {
     return this.items[index];
   }
   /**
-   * Clears all validation rules and associated messages from the InputRule instance.
+   * Clears all validation rules, associated messages and hooks from the InputRule instance.
    * @returns - Returns the current InputRule instance after clearing.
    */
   clear() {
     this.items = [];
     this.messages = {};
+    this.hooks = {};
     return this;
   }
   ruleNameAsArray() {
@@ -82,7 +84,7 @@ export class InputRule {
     rule: string,
     message?: string | null,
     param?: RuleParam,
-    validate?: RuleCallBack,
+    validate?: AnyRuleCallBack,
     local?: string,
   ) {
     if (this.has(rule)) {
@@ -100,10 +102,11 @@ export class InputRule {
     originaleRule: string,
     message?: string | null,
     param?: RuleParam,
-    validate?: RuleCallBack,
+    validate?: AnyRuleCallBack,
     local?: string,
   ): RuleType {
     const { ruleName, params } = getRule(originaleRule);
+    const defaultMessage = !message && !local;
 
     if (!message) {
       message = this._bag.getMessage(ruleName, local);
@@ -119,6 +122,7 @@ export class InputRule {
     return {
       name: ruleName,
       message,
+      defaultMessage,
       params: param ?? params,
       validate,
     };
@@ -158,7 +162,7 @@ export class InputRule {
   }
   /**
    * Sets validation rules and associated messages for the InputRule instance.
-   * @param {Rule[] | string[] | Rule | string} rules - The validation rules to set.
+   * @param {Rule[] | string[] | RuleType[] | Rule | string} rules - The validation rules to set.
    * @param {string | string[] | Record<string, string> | null} messages - Optional. Custom error messages for the validation rules.
    * @param {string} local - Optional. The locale to use for retrieving localized error messages.
    * @returns - Returns the current InputRule instance after setting the rules.
@@ -170,14 +174,20 @@ export class InputRule {
     local?: string,
   ) {
     const rules = Array.isArray(rulesParams)
-      ? rulesParams.map((r) => r.trim())
+      ? rulesParams.map((r) => (typeof r === 'string' ? r.trim() : r))
       : rulesParams.split('|').map((r) => r.trim());
     //Convert to object or array
     messages = this.toArrayOrObject(messages);
     for (let i = 0; i < rules.length; i++) {
       const originaleRule = rules[i];
       let message: string | null = null;
-      const { ruleName, params } = getRule(originaleRule);
+      // Structured entries, from the schema builder, skip the string parsing
+      const { ruleName, params } =
+        typeof originaleRule === 'string'
+          ? getRule(originaleRule)
+          : { ruleName: originaleRule.name, params: originaleRule.params };
+      const validate =
+        typeof originaleRule === 'string' ? undefined : originaleRule.validate;
       if (Array.isArray(messages)) {
         const indexes = this.convertAcoladeGroupToArray(messages[i] ?? '');
         for (const ii of indexes) {
@@ -187,8 +197,11 @@ export class InputRule {
       } else if (typeof messages === 'object') {
         message = this._sanitizeMessage(messages[ruleName]) ?? null;
       }
+      if (typeof originaleRule !== 'string' && originaleRule.message) {
+        message = originaleRule.message;
+      }
 
-      this.add(ruleName, message, params, undefined, local);
+      this.add(ruleName, message, params, validate, local);
     }
     return this;
   }
@@ -227,7 +240,7 @@ export class InputRule {
    * @param {string} rule - The name of the rule to add.
    * @param {string | null} message - Optional. The custom error message for the rule.
    * @param {RuleParam} param - Optional. The parameters for the rule.
-   * @param {RuleCallBack} validate - Optional. The validation callback function for the rule.
+   * @param {AnyRuleCallBack} validate - Optional. The validation callback function for the rule.
    * @param {string} local - Optional. The locale to use for retrieving localized error messages.
    * @returns - Returns the current InputRule instance after adding the rule.
    */
@@ -235,7 +248,7 @@ export class InputRule {
     rule: string,
     message?: string | null,
     param?: RuleParam,
-    validate?: RuleCallBack,
+    validate?: AnyRuleCallBack,
     local?: string,
   ): this {
     this.add(rule, message, param, validate, local);
@@ -253,7 +266,7 @@ export class InputRule {
    * @param {string} rule - The name of the rule to add.
    * @param {string | null} message - Optional. The custom error message for the rule.
    * @param {RuleParam} param - Optional. The parameters for the rule.
-   * @param {RuleCallBack} validate - Optional. The validation callback function for the rule.
+   * @param {AnyRuleCallBack} validate - Optional. The validation callback function for the rule.
    * @param {string} local - Optional. The locale to use for retrieving localized error messages.
    * @returns - Returns the current InputRule instance after adding the rule.
    */
@@ -261,7 +274,7 @@ export class InputRule {
     rule: string,
     message?: string | null,
     param?: RuleParam,
-    validate?: RuleCallBack,
+    validate?: AnyRuleCallBack,
     local?: string,
   ) {
     this.push(rule, message, param, validate, local);
@@ -272,7 +285,7 @@ export class InputRule {
    * @param {string} rule - The name of the rule to add.
    * @param {string | null} message - Optional. The custom error message for the rule.
    * @param {RuleParam} param - Optional. The parameters for the rule.
-   * @param {RuleCallBack} validate - Optional. The validation callback function for the rule.
+   * @param {AnyRuleCallBack} validate - Optional. The validation callback function for the rule.
    * @param {string} local - Optional. The locale to use for retrieving localized error messages.
    * @returns - Returns the current InputRule instance after adding the rule.
    */
@@ -280,7 +293,7 @@ export class InputRule {
     rule: string,
     message?: string | null,
     param?: RuleParam,
-    validate?: RuleCallBack,
+    validate?: AnyRuleCallBack,
     local?: string,
   ) {
     this.items.unshift(this.createRule(rule, message, param, validate, local));
@@ -289,7 +302,7 @@ export class InputRule {
   /**
    * Inserts a new validation rule before an existing rule in the InputRule instance and returns the current instance.
    * @param {string} existingRule - The name of the existing rule before which the new rule will be inserted.
-   * @param {string | Rule | { rule: string; message?: string | null; param?: RuleParam; validate?: RuleCallBack; local?: string; }} incomming - The new rule to insert.
+   * @param {string | Rule | { rule: string; message?: string | null; param?: RuleParam; validate?: AnyRuleCallBack; local?: string; }} incomming - The new rule to insert.
    * @returns - Returns the current InputRule instance after inserting the new rule.
    */
   insertBefore(
@@ -299,7 +312,7 @@ export class InputRule {
           rule: string;
           message?: string | null;
           param?: RuleParam;
-          validate?: RuleCallBack;
+          validate?: AnyRuleCallBack;
           local?: string;
         }
       | string
@@ -330,7 +343,7 @@ export class InputRule {
   /**
    * Inserts a new validation rule after an existing rule in the InputRule instance and returns the current instance.
    * @param {string} existingRule - The name of the existing rule after which the new rule will be inserted.
-   * @param {string | Rule | { rule: string; message?: string | null; param?: RuleParam; validate?: RuleCallBack; local?: string; }} incomming - The new rule to insert.
+   * @param {string | Rule | { rule: string; message?: string | null; param?: RuleParam; validate?: AnyRuleCallBack; local?: string; }} incomming - The new rule to insert.
    * @returns - Returns the current InputRule instance after inserting the new rule.
    */
   insertAfter(
@@ -340,7 +353,7 @@ export class InputRule {
           rule: string;
           message?: string | null;
           param?: RuleParam;
-          validate?: RuleCallBack;
+          validate?: AnyRuleCallBack;
           local?: string;
         }
       | string
@@ -382,6 +395,7 @@ export class InputRule {
       if (r) {
         this.messages[ruleName] = message;
         r.message = message;
+        r.defaultMessage = false;
       }
     }
 
@@ -398,7 +412,47 @@ export class InputRule {
     return this.messages[ruleName] || null;
   }
 
-  addHook(name: string, callback: InputCallback<InputInterface>) {
+  /**
+   * Registers a hook run around a rule, named `before.{rule}.run`, `after.{rule}.run`,
+   * `after.{rule}.passes` or `after.{rule}.fails`.
+   * @param name - The hook name.
+   * @param callback - The callback to run, it receives the rule value, params and result.
+   * @returns - Returns the current InputRule instance.
+   */
+  addHook(name: string, callback: InputCallback<RuleHookEvent>) {
+    if (!this.hooks[name]) {
+      this.hooks[name] = [];
+    }
+    this.hooks[name].push(callback);
     return this;
   }
+
+  /**
+   * Removes a hook registered with addHook.
+   * @param name - The hook name.
+   * @param callback - The callback to remove, all the callbacks of the hook are removed if omitted.
+   * @returns - Returns the current InputRule instance.
+   */
+  removeHook(name: string, callback?: InputCallback<RuleHookEvent>) {
+    if (!callback) {
+      delete this.hooks[name];
+    } else if (this.hooks[name]) {
+      this.hooks[name] = this.hooks[name].filter((cb) => cb !== callback);
+    }
+    return this;
+  }
+
+  /**
+   * Runs the callbacks registered for a hook.
+   * @param name - The hook name.
+   * @param event - The details given to each callback, which can update them.
+   * @returns - The event, after each callback ran.
+   */
+  runHooks(name: string, event: RuleHookEvent) {
+    const callbacks = this.hooks[name] ?? [];
+    for (const callback of callbacks) {
+      callback(event);
+    }
+    return event;
+  }
 }
@@ -1,8 +1,9 @@
 import { CssSelector } from '../../contracts';
 
 export class TrParameter {
-  feedbackSelector: CssSelector | null = '[data-tr-feedback={name}]';
-  inputSelector: CssSelector | null = '[name={name}]';
+  // Quoted, the input paths contain dots
+  feedbackSelector: CssSelector | null = '[data-tr-feedback="{name}"]';
+  inputSelector: CssSelector | null = '[name="{name}"]';
   getFeedbackSelector(name: string): CssSelector | null {
     if (typeof this.feedbackSelector === 'string') {
       if (name.trim().length < 1) {
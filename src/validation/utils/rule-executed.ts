@@ -1,4 +1,4 @@
-import { InputValueType, Rule, RuleParam } from '../../contracts';
+import { InputValueType, ItemError, Rule, RuleParam } from '../../contracts';
 
 export class RuleExecuted {
   /**
@@ -11,6 +11,15 @@ export class RuleExecuted {
   params: RuleParam;
   orignalName!: Rule | string;
   run = false;
+  /**
+   * Indicates that the rule is asynchronous and its result is still awaited
+   */
+  pending = false;
+  /**
+   * The error of each failed item or key, by path from the value, for the rules run on the
+   * items of an array or the keys of an object
+   */
+  items: Record<string, ItemError> = {};
 
   constructor(ruleName: string, originalRuleName: string | Rule) {
     this.ruleName = ruleName;
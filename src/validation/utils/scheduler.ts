@@ -0,0 +1,75 @@
+/**
+ * Delays the validation runs of an input. With a debounce, only the last call runs once no
+ * call was made for the delay. With a throttle, a call runs at most once per period, the last
+ * call of the period running at its end.
+ */
+export class Scheduler {
+  private _timer?: ReturnType<typeof setTimeout>;
+
+  private _callback?: () => unknown;
+
+  // The time of the last run, for the throttle
+  private _lastRun = 0;
+
+  constructor(
+    private readonly debounce = 0,
+    private readonly throttle = 0,
+  ) {}
+
+  /**
+   * Check if a call is waiting to run
+   */
+  get pending() {
+    return this._timer !== undefined;
+  }
+
+  /**
+   * Run the callback now or later, replacing the call waiting to run.
+   */
+  schedule(callback: () => unknown): void {
+    this._callback = callback;
+    if (this.debounce > 0) {
+      this._clear();
+      this._timer = setTimeout(() => this.flush(), this.debounce);
+      return;
+    }
+    if (this.throttle > 0) {
+      const wait = this._lastRun + this.throttle - Date.now();
+      if (wait > 0) {
+        if (!this._timer) {
+          this._timer = setTimeout(() => this.flush(), wait);
+        }
+        return;
+      }
+    }
+    this.flush();
+  }
+
+  /**
+   * Run the call waiting to run now.
+   */
+  flush(): void {
+    this._clear();
+    const callback = this._callback;
+    this._callback = undefined;
+    if (callback) {
+      this._lastRun = Date.now();
+      callback();
+    }
+  }
+
+  /**
+   * Drop the call waiting to run.
+   */
+  cancel(): void {
+    this._clear();
+    this._callback = undefined;
+  }
+
+  private _clear() {
+    if (this._timer !== undefined) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import {
+  InputParms,
+  InputShape,
+  ItemError,
+  Rule,
+  RuleCallBack,
+} from '../../contracts';
+import { Messages } from '../../messages';
+import { Bag } from '../bag';
+import { Validation } from '../validation';
+import { InputRule } from './input-rule';
+
+type ShapeParms = Exclude<InputShape[string], string | unknown[]>;
+
+/**
+ * Make the rule validating the keys of an object, or of the object parsed from a JSON string,
+ * with the rules of the shape. The failed keys are given in the `items` of the state, with
+ * their nested keys, so that a form reports an error for each of them.
+ * The rule gives the validated object: the values returned by the rules of the keys, without
+ * the unknown keys when they are stripped.
+ */
+export function makeShapeRule(
+  bag: Bag,
+  shape: InputShape,
+  unknownKeys: InputParms['unknownKeys'] = 'allow',
+): RuleCallBack {
+  const keys = Object.keys(shape).map((key) => {
+    const entry = shape[key];
+    const params: ShapeParms =
+      typeof entry === 'string' || Array.isArray(entry)
+        ? { rules: entry }
+        : entry;
+    const rules = new InputRule(bag, params.rules ?? [], params.messages);
+    if (params.shape) {
+      rules.add(
+        'shape',
+        shapeMessage(params),
+        undefined,
+        makeShapeRule(bag, params.shape, params.unknownKeys),
+      );
+    }
+    const validation = new Validation(bag.trLocal);
+    validation.set(rules, params.failsOnfirst ?? true, params.type ?? 'text');
+    validation.attribute = params.attribute ?? key;
+    return { key, validation };
+  });
+
+  return (input, _param, _type, context) => {
+    let value = input;
+    if (typeof value === 'string') {
+      try {
+        value = JSON.parse(value);
+      } catch (e) {
+        return { passes: false, value: input };
+      }
+    }
+    if (typeof value !== 'object' || !value || Array.isArray(value)) {
+      return { passes: false, value: input };
+    }
+
+    const object = value as Record<string, unknown>;
+    const output: Record<string, unknown> =
+      unknownKeys === 'strip' ? {} : { ...object };
+    const items: Record<string, ItemError> = {};
+
+    for (const { key, validation } of keys) {
+      validation.context = context && {
+        ...context,
+        path: `${context.path}.${key}`,
+      };
+      // The validation is shared by the runs, forget the rules of the last one
+      validation.reset();
+      validation.fill(object[key] as never).validate();
+      if (validation.pending) {
+        throw new Error(
+          `The rules of the key ${key} are asynchronous, they can't be run in a shape`,
+        );
+      }
+      if (hasOwn(object, key) || validation.value !== undefined) {
+        output[key] = validation.value;
+      }
+      const failed = validation.getRuleExecuted().find((rx) => !rx.passed);
+      if (!failed) {
+        continue;
+      }
+      items[key] = {
+        rule: failed.orignalName,
+        params: failed.params,
+        message: failed.message ?? '',
+        value: object[key],
+      };
+      Object.entries(failed.items).forEach(([path, item]) => {
+        items[`${key}.${path}`] = item;
+      });
+    }
+
+    if (unknownKeys === 'strict') {
+      Object.keys(object)
+        .filter((key) => !hasOwn(shape, key))
+        .forEach((key) => {
+          items[key] = {
+            rule: 'unknownKey',
+            value: object[key],
+            message: Messages.parseMessage(
+              key,
+              'unknownKey' as Rule,
+              bag.getMessage('unknownKey'),
+              undefined,
+            ),
+          };
+        });
+    }
+
+    return {
+      passes: Object.keys(items).length === 0,
+      value: output,
+      items,
+    };
+  };
+}
+
+/**
+ * Get the message given to the shape rule in the messages of an input
+ */
+export function shapeMessage(params: Pick<InputParms, 'messages'>) {
+  const messages = params.messages;
+  return messages && typeof messages === 'object' && !Array.isArray(messages)
+    ? messages.shape
+    : undefined;
+}
+
+/**
+ * Check if an object has its own key, the inherited keys like `constructor` aren't keys of a shape
+ */
+function hasOwn(object: object, key: string) {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
@@ -1,9 +1,28 @@
 import { InputRule } from './utils/input-rule';
-import { InputValueType, InputType, Rule, RulesMessages } from '../contracts';
+import { FieldReference } from './utils/field-reference';
+import {
+  InputValueType,
+  InputType,
+  Rule,
+  RuleContext,
+  RulesMessages,
+  RuleType,
+  ValidationState,
+} from '../contracts';
 
 import { RuleExecuted } from '.';
 import { Messages } from '../messages';
 import { Local } from '../locale/local';
+import { isPromise } from '../utils';
+
+/**
+ * The state shared by the rules of a single validation run
+ */
+type ValidationRun = {
+  id: number;
+  inputType: InputType;
+  isNullableAndNull: boolean;
+};
 
 export class Validation {
   private _inputType = 'text';
@@ -12,11 +31,36 @@ export class Validation {
    */
   private _rules!: InputRule;
 
+  /**
+   * The value given to the validation, before any rule transforms it
+   */
+  private _input: InputValueType = undefined;
+
   /**
    * The current value to validate
    */
   private _value: InputValueType = undefined;
 
+  /**
+   * Incremented on each run, used to discard the result of stale asynchronous runs
+   */
+  private _runId = 0;
+
+  /**
+   * Whether an asynchronous rule result is still awaited
+   */
+  private _pending = false;
+
+  /**
+   * Whether a rule returned a promise in a previous run
+   */
+  private _async = false;
+
+  /**
+   * The run waiting for the asynchronous rules, see settle()
+   */
+  private _settling?: Promise<boolean>;
+
   /**
    * A list of rules run
    */
@@ -42,6 +86,11 @@ export class Validation {
 
   locale!: Local;
 
+  /**
+   * The context given to the rules, when the value is validated as part of a form
+   */
+  context?: RuleContext;
+
   constructor(locale: Local) {
     this.locale = locale;
   }
@@ -49,82 +98,283 @@ export class Validation {
    * This method performs the validation process. It iterates over the _rules array and executes each rule on the
    * _value. If _failOnfirst is set to true, the method stops executing rules after the first failure. The method
    * updates the _ruleExecuted array with the result of each rule execution.
+   * When a rule returns a promise, the rule is marked as pending and the rest of the run waits for it: use settle()
+   * to get its result.
    * It returns a boolean value indicating whether the validation passed (true) or not (false)
    * @example
    * const validation = new Validation(param)
    * validation.validate()
    */
   validate() {
-    const rules = this._rules.all();
-
-    if (!Array.isArray(rules)) {
-      throw new Error('The rule provided must be an array of Rule');
-    }
-
-    let inputType = this._inputType as InputType;
-    let isNullableAndNull = false;
+    const rules = this._getRulesToRun();
+    const run = this._startRun();
 
     for (const rule of rules) {
-      const ruleName = rule.name;
-      const params = rule.params;
-      const ruleCallback = rule.validate;
-      const message = rule.message;
-
-      let ruleToRun = ruleName;
-      const ruleExec = this._makeRuleExcutedInstance(ruleToRun, ruleName);
-      ruleExec.params = params;
+      const ruleExec = this._makeRuleExcutedInstance(rule.name, rule.name);
+      ruleExec.params = rule.params;
 
       // Skip validation if value is null and we've already passed the nullable rule
-      if (isNullableAndNull) {
-        ruleExec.passed = true;
-        ruleExec.valueTested = this._value;
-        ruleExec.run = true;
-        this._addRuleExecuted(ruleExec);
+      if (run.isNullableAndNull || !this._beforeRule(rule)) {
+        this._skipRule(ruleExec);
         continue;
       }
 
-      if (!ruleCallback || typeof ruleCallback !== 'function') {
-        throw new Error(`The rule ${ruleName} is not defined`);
+      const state = this._callRule(rule, run);
+
+      if (isPromise<ValidationState>(state)) {
+        this._async = true;
+        this._markPending(ruleExec);
+        this._settling = this._runAsync(
+          rules.slice(rules.indexOf(rule)),
+          run,
+          state,
+        );
+        // The result is given by settle(), avoid unhandled rejections meanwhile
+        this._settling.catch(() => undefined);
+        break;
       }
 
-      const state = ruleCallback(this._value, params, inputType);
-
-      // Check if this is a nullable rule that passed with null value
-      if (
-        ruleName === 'nullable' &&
-        state.passes &&
-        (this._value === null ||
-          this._value === '' ||
-          this._value === undefined)
-      ) {
-        isNullableAndNull = true;
+      if (this._handleState(rule, ruleExec, state, run)) {
+        break;
       }
+    }
+
+    return !this.hasErrors();
+  }
 
-      ruleExec.passed = state.passes;
-      this._value = state.value as InputValueType;
-      inputType = state.type ?? inputType;
-      ruleToRun = state.alias ?? ruleName;
+  /**
+   * Asynchronous version of validate(). Each rule result is awaited, so rules returning a promise are supported.
+   * Starting a new run (sync or async) while this one is awaiting a rule makes it stale: its result is discarded
+   * and the promise resolves with the state of the latest run.
+   * @example
+   * const validation = new Validation(param)
+   * await validation.validateAsync()
+   */
+  async validateAsync(): Promise<boolean> {
+    const rules = this._getRulesToRun();
+    const run = this._startRun();
+    this._settling = this._runAsync(rules, run);
+    return this._settling;
+  }
 
-      ruleExec.valueTested = this._value;
-      ruleExec.run = true;
-      this._addRuleExecuted(ruleExec);
+  /**
+   * Wait for the rules left pending by validate()
+   * @returns A promise resolving to true if the validation passed once every rule settled
+   */
+  settle(): Promise<boolean> {
+    return this._pending && this._settling
+      ? this._settling
+      : Promise.resolve(this.passes());
+  }
 
-      if (this._failOnfirst) {
-        if (!ruleExec.passed) {
-          this._parseRuleMessage(ruleExec, ruleToRun, message);
-          break;
+  /**
+   * Run the rules one after the other, waiting for the state of each one
+   * @param called The state of the first rule, when validate() already called it
+   */
+  private async _runAsync(
+    rules: RuleType[],
+    run: ValidationRun,
+    called?: Promise<ValidationState>,
+  ): Promise<boolean> {
+    this._pending = true;
+
+    try {
+      for (const rule of rules) {
+        const ruleExec = this._makeRuleExcutedInstance(rule.name, rule.name);
+        ruleExec.params = rule.params;
+        const first = rule === rules[0] ? called : undefined;
+
+        if (!first && (run.isNullableAndNull || !this._beforeRule(rule))) {
+          this._skipRule(ruleExec);
+          continue;
         }
-      } else {
-        if (!ruleExec.passed) {
-          this._parseRuleMessage(ruleExec, ruleToRun, message);
-        } else {
-          ruleExec.message = null;
+
+        const result = first ?? this._callRule(rule, run);
+        if (isPromise(result)) {
+          this._async = true;
+        }
+        const state = await this._settle(result);
+
+        if (run.id !== this._runId) {
+          return this.passes();
         }
+
+        if (this._handleState(rule, ruleExec, state, run)) {
+          break;
+        }
+      }
+    } finally {
+      if (run.id === this._runId) {
+        this._pending = false;
       }
     }
 
     return !this.hasErrors();
   }
+
+  private _getRulesToRun() {
+    const rules = this._rules.all();
+
+    if (!Array.isArray(rules)) {
+      throw new Error('The rule provided must be an array of Rule');
+    }
+    return rules;
+  }
+
+  private _startRun(): ValidationRun {
+    this._value = this._input;
+    this._pending = false;
+    this._settling = undefined;
+    // Only the rules run this time are reported
+    this._ruleExecuted.splice(0);
+    return {
+      id: ++this._runId,
+      inputType: this._inputType as InputType,
+      isNullableAndNull: false,
+    };
+  }
+
+  private _callRule(rule: RuleType, run: ValidationRun) {
+    const ruleCallback = rule.validate;
+    if (!ruleCallback || typeof ruleCallback !== 'function') {
+      throw new Error(`The rule ${rule.name} is not defined`);
+    }
+
+    const reference = new FieldReference(rule.params, this.context);
+    if (reference.hasUnresolved()) {
+      // The rule fails instead of throwing for its missing parameter
+      return { passes: false, value: this._value };
+    }
+    return ruleCallback(
+      this._value,
+      reference.resolve(),
+      run.inputType,
+      this.context,
+    );
+  }
+
+  /**
+   * Wait for the state of a rule, a rejected promise fails the rule
+   */
+  private async _settle(
+    state: ValidationState | Promise<ValidationState>,
+  ): Promise<ValidationState> {
+    try {
+      return await state;
+    } catch (e) {
+      return { passes: false, value: this._value };
+    }
+  }
+
+  private _skipRule(ruleExec: RuleExecuted) {
+    ruleExec.passed = true;
+    ruleExec.pending = false;
+    ruleExec.valueTested = this._value;
+    ruleExec.run = true;
+    this._addRuleExecuted(ruleExec);
+  }
+
+  private _markPending(ruleExec: RuleExecuted) {
+    ruleExec.passed = false;
+    ruleExec.pending = true;
+    ruleExec.message = null;
+    ruleExec.valueTested = this._value;
+    ruleExec.run = false;
+    this._pending = true;
+    this._addRuleExecuted(ruleExec);
+  }
+
+  /**
+   * Record the state returned by a rule
+   * @returns true if the validation must stop here
+   */
+  private _handleState(
+    rule: RuleType,
+    ruleExec: RuleExecuted,
+    state: ValidationState,
+    run: ValidationRun,
+  ): boolean {
+    // Check if this is a nullable rule that passed with null value
+    if (
+      rule.name === 'nullable' &&
+      state.passes &&
+      (this._value === null || this._value === '' || this._value === undefined)
+    ) {
+      run.isNullableAndNull = true;
+    }
+
+    ruleExec.passed = state.passes;
+    ruleExec.pending = false;
+    this._value = state.value as InputValueType;
+    run.inputType = state.type ?? run.inputType;
+    const ruleToRun = state.alias ?? rule.name;
+
+    ruleExec.valueTested = this._value;
+    ruleExec.run = true;
+    ruleExec.items = {};
+    this._addRuleExecuted(ruleExec);
+
+    if (!ruleExec.passed) {
+      this._parseRuleMessage(
+        ruleExec,
+        ruleToRun,
+        rule.defaultMessage ? undefined : rule.message,
+      );
+      this._parseItemMessages(
+        ruleExec,
+        state,
+        rule.defaultMessage ? undefined : rule.message,
+      );
+    } else if (!this._failOnfirst) {
+      ruleExec.message = null;
+    }
+    this._afterRule(rule, ruleExec);
+
+    return !ruleExec.passed && this._failOnfirst;
+  }
+
+  /**
+   * Run the before hooks of a rule, which can replace the value or skip the rule
+   * @returns false if the rule must be skipped
+   */
+  private _beforeRule(rule: RuleType): boolean {
+    let skipped = false;
+    const event = this._rules.runHooks(`before.${rule.name}.run`, {
+      rule: rule.name,
+      value: this._value,
+      params: rule.params,
+      skip: () => {
+        skipped = true;
+      },
+    });
+    this._value = event.value as InputValueType;
+    return !skipped;
+  }
+
+  private _afterRule(rule: RuleType, ruleExec: RuleExecuted) {
+    const event = {
+      rule: rule.name,
+      value: this._value,
+      params: rule.params,
+      executed: ruleExec,
+      skip: () => undefined,
+    };
+    this._rules.runHooks(`after.${rule.name}.run`, event);
+    this._rules.runHooks(
+      `after.${rule.name}.${ruleExec.passed ? 'passes' : 'fails'}`,
+      event,
+    );
+  }
+
+  /**
+   * Forget the result of the last validation, a run in progress becomes stale
+   */
+  reset(): void {
+    this._ruleExecuted.splice(0);
+    this._runId++;
+    this._pending = false;
+  }
+
   /**
    * Get rule/message error
    * @returns
@@ -132,7 +382,7 @@ export class Validation {
   getErrors() {
     const r: Record<string, string> = {};
     for (const rx of this._ruleExecuted) {
-      if (!rx.passed) {
+      if (!rx.passed && !rx.pending) {
         r[rx.orignalName] = rx.message ?? '';
       }
     }
@@ -209,7 +459,7 @@ export class Validation {
       this._attr,
       ruleExec.ruleName as Rule,
       messages.getRulesMessages([ruleExec.ruleName as Rule])[0],
-      ruleExec.params,
+      new FieldReference(ruleExec.params, this.context).describe(),
     );
 
     ruleExec.message = message;
@@ -217,14 +467,61 @@ export class Validation {
     return ruleExec;
   }
 
+  /**
+   * Write the message of each failed item without its own message, with the message of its rule,
+   * unless a message was given to the rule run on the items
+   */
+  private _parseItemMessages(
+    ruleExec: RuleExecuted,
+    state: ValidationState,
+    message: string | undefined | null,
+  ) {
+    for (const [path, item] of Object.entries(state.items ?? {})) {
+      ruleExec.items[path] = {
+        ...item,
+        message:
+          item.message ??
+          Messages.parseMessage(
+            this._attr,
+            item.rule as Rule,
+            message || this.locale.getRuleMessage(item.rule),
+            item.params,
+          ),
+      };
+    }
+  }
+
   /**
    * Set the value and validate it automatically
    */
   set value(v: InputValueType) {
-    this._value = v;
+    this._input = v;
     this.validate();
   }
 
+  /**
+   * Set the value to validate without running the validation
+   */
+  fill(v: InputValueType): this {
+    this._input = v;
+    return this;
+  }
+
+  /**
+   * Check if an asynchronous rule result is still awaited
+   */
+  get pending() {
+    return this._pending;
+  }
+
+  /**
+   * Check if a rule returned a promise in a previous run, the value should then be validated with
+   * validateAsync()
+   */
+  hasAsyncRules(): boolean {
+    return this._async;
+  }
+
   set failsOnFirst(fails: boolean) {
     this._failOnfirst = fails;
   }
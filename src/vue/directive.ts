@@ -0,0 +1,117 @@
+import type { ObjectDirective } from 'vue';
+import { Jevalide } from '../index';
+import { elementValue, FormElement, isFormElement } from '../dom';
+import { data_equal, getHTMLElementBySelector } from '../utils';
+import type { InputParms, InputValueType } from '../contracts';
+import type { InputValidator } from '../validation';
+import { TrParameter } from '../validation/utils/parameter';
+
+export type JevalideDirectiveValue = string | string[] | InputParms;
+
+type DirectiveState = {
+  input: InputValidator;
+  cleanup: (() => void)[];
+};
+
+const states = new WeakMap<HTMLElement, DirectiveState>();
+
+const parameter = new TrParameter();
+
+/**
+ * Get the input validator created by v-jevalide for an element
+ */
+export function directiveInput(element: HTMLElement): InputValidator | null {
+  return states.get(element)?.input ?? null;
+}
+
+/**
+ * Validate an element with the rules given as value, e.g. `v-jevalide="'required|email'"`, or
+ * with input parameters. The element gets the `is-invalid` or `is-valid` class and
+ * aria-invalid, and the first message is written in its `[data-tr-feedback="name"]` element.
+ */
+export const vJevalide: ObjectDirective<HTMLElement, JevalideDirectiveValue> = {
+  mounted(element, binding) {
+    mount(element, binding.value);
+  },
+  updated(element, binding) {
+    if (!data_equal(binding.value, binding.oldValue)) {
+      unmount(element);
+      mount(element, binding.value);
+    }
+  },
+  beforeUnmount(element) {
+    unmount(element);
+  },
+};
+
+function mount(element: HTMLElement, value: JevalideDirectiveValue) {
+  if (!isFormElement(element)) {
+    throw new Error(
+      'v-jevalide must be used on an input, a select or a textarea',
+    );
+  }
+  const params: InputParms =
+    typeof value === 'string' || Array.isArray(value)
+      ? { rules: value }
+      : { ...value };
+  params.name = params.name ?? element.name;
+
+  const jevalide = Jevalide.getInstance();
+  const input = jevalide.input(params);
+  const read = () => elementValue([element]) as InputValueType;
+  input.fill(read()).setInitialValue(input.getValue());
+
+  const onChange = () => input.setValue(read());
+  const onBlur = () => input.blur();
+  element.addEventListener('input', onChange);
+  element.addEventListener('change', onChange);
+  element.addEventListener('focusout', onBlur);
+
+  states.set(element, {
+    input,
+    cleanup: [
+      () => element.removeEventListener('input', onChange),
+      () => element.removeEventListener('change', onChange),
+      () => element.removeEventListener('focusout', onBlur),
+      input.onValidate(() => render(element, input)),
+      jevalide.onLocaleChange(() => {
+        // The messages are written during the validation
+        if (input.getRuleExecuted().length > 0) {
+          input.validate();
+          input.settle().catch(() => undefined);
+        }
+      }),
+    ],
+  });
+}
+
+function unmount(element: HTMLElement) {
+  const state = states.get(element);
+  if (state) {
+    state.cleanup.forEach((fn) => fn());
+    state.input.destroy();
+    states.delete(element);
+  }
+}
+
+function render(element: FormElement, input: InputValidator) {
+  if (input.pending) {
+    return;
+  }
+  const message = Object.values(input.getErrors())[0] ?? '';
+  const invalid = !!message;
+  element.classList.toggle('is-invalid', invalid);
+  element.classList.toggle('is-valid', !invalid);
+  element.setAttribute('aria-invalid', String(invalid));
+
+  const selector = parameter.getFeedbackSelector(input.getName());
+  if (!selector) {
+    return;
+  }
+  const feedback =
+    (element.form && getHTMLElementBySelector(selector, element.form)) ??
+    getHTMLElementBySelector(selector);
+  if (feedback instanceof HTMLElement) {
+    feedback.textContent = message;
+  }
+}
@@ -0,0 +1,2 @@
+export * from './use-jevalide';
+export * from './directive';
@@ -0,0 +1,234 @@
+import {
+  getCurrentScope,
+  onScopeDispose,
+  reactive,
+  ref,
+  Ref,
+  shallowRef,
+  ShallowRef,
+  toRaw,
+  watch,
+} from 'vue';
+import { Jevalide } from '../index';
+import { data_clone, data_equal } from '../utils';
+import type {
+  FormConfig,
+  FormInput,
+  FormOutput,
+  MakeInput,
+} from '../contracts';
+import type { ErrorBag, FormValidator } from '../validation';
+
+export type UseJevalide<T, D> = {
+  /**
+   * The form validator, for what the composable doesn't expose
+   */
+  form: FormValidator<T, D>;
+  /**
+   * The form data, to bind with v-model. A change validates the changed inputs, as their trigger allows.
+   */
+  values: D;
+  /**
+   * The first message of each failed input, like `form.errors`
+   */
+  errors: ShallowRef<Record<string, string>>;
+  /**
+   * The touched inputs
+   */
+  touched: ShallowRef<Record<string, boolean>>;
+  isDirty: Ref<boolean>;
+  /**
+   * Check if a submission waits for asynchronous rules
+   */
+  isSubmitting: Ref<boolean>;
+  /**
+   * The current locale, changed with Jevalide.setLocale()
+   */
+  locale: Ref<string>;
+  /**
+   * Mark an input touched and validate it, as its trigger allows
+   */
+  blur: (name: string) => void;
+  /**
+   * Get a submit handler validating the form, then calling onValid with the validated data or
+   * onInvalid with the errors
+   */
+  handleSubmit: (
+    onValid: (data: T, form: FormValidator<T, D>) => unknown,
+    onInvalid?: (errors: ErrorBag, form: FormValidator<T, D>) => unknown,
+  ) => (event?: { preventDefault?: () => void }) => Promise<void>;
+  /**
+   * Restore the initial data, see FormValidator.reset()
+   */
+  reset: () => void;
+};
+
+/**
+ * Create a form validator with reactive values and errors. The messages follow the locale set
+ * with Jevalide.setLocale(), and the form is destroyed with the scope of the component.
+ * @example
+ * ```vue
+ * <script setup>
+ * const { values, errors, blur, handleSubmit } = useJevalide(
+ *   { email: 'required|email' },
+ *   { email: '' },
+ * );
+ * const submit = handleSubmit((data) => api.post('/users', data));
+ * </script>
+ *
+ * <template>
+ *   <form @submit="submit">
+ *     <input v-model="values.email" @blur="blur('email')" />
+ *     <p v-if="errors.email">{{ errors.email }}</p>
+ *   </form>
+ * </template>
+ * ```
+ */
+export function useJevalide<T = never, const I extends MakeInput = MakeInput>(
+  inputs: I,
+  initialData: NoInfer<FormInput<T>>,
+  config?: FormConfig,
+): UseJevalide<FormOutput<T, I>, NoInfer<FormInput<T>>> {
+  const jevalide = Jevalide.getInstance();
+  const form = jevalide.form<T, I>(inputs, initialData, config);
+  const values = reactive(
+    data_clone(form.getData()) as Record<string, unknown>,
+  );
+  const errors = shallowRef<Record<string, string>>({});
+  const touched = shallowRef<Record<string, boolean>>({});
+  const isDirty = ref(false);
+  const isSubmitting = ref(false);
+  const locale = ref(jevalide.getLocale());
+
+  const refresh = () => {
+    const bag = form.errors;
+    const first: Record<string, string> = {};
+    bag.keys().forEach((path) => {
+      first[path] = bag.first(path) ?? '';
+    });
+    errors.value = first;
+    const names: Record<string, boolean> = {};
+    form.touchedFields().forEach((name) => {
+      names[name] = true;
+    });
+    touched.value = names;
+    isDirty.value = form.isDirty();
+  };
+
+  // Copy the form data back to the values, without validating them
+  const restore = () => {
+    const data = data_clone(form.getData()) as Record<string, unknown>;
+    Object.keys(values).forEach((key) => {
+      if (!(key in data)) {
+        delete values[key];
+      }
+    });
+    Object.assign(values, data);
+  };
+
+  watch(
+    values,
+    () => {
+      const data = data_clone(toRaw(values));
+      if (data_equal(data, form.getData())) {
+        return;
+      }
+      const previous = new Map(
+        form.all().map((input) => [input.getName(), input.getValue()]),
+      );
+      form.setData(data as FormInput<T>);
+      form
+        .all()
+        .filter(
+          (input) =>
+            !data_equal(previous.get(input.getName()), input.getValue()) &&
+            input.validatesOn('onChange'),
+        )
+        .forEach((input) => {
+          input.schedule(() =>
+            form.validateInputAsync(input.getName()).catch(() => undefined),
+          );
+        });
+      refresh();
+    },
+    { deep: true },
+  );
+
+  const unsubscribe = [
+    form.onValidate(refresh),
+    form.onReset(() => {
+      restore();
+      refresh();
+    }),
+    jevalide.onLocaleChange((current) => {
+      locale.value = current;
+      // The messages are written during the validation
+      form
+        .all()
+        .filter((input) => input.getRuleExecuted().length > 0)
+        .forEach((input) =>
+          form.validateInputAsync(input.getName()).catch(() => undefined),
+        );
+      refresh();
+    }),
+  ];
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      unsubscribe.forEach((fn) => fn());
+      form.all().forEach((input) => input.cancelScheduled());
+      form.destroy();
+    });
+  }
+
+  const blur = (name: string) => {
+    form.touch(name);
+    form
+      .all()
+      .filter(
+        (input) =>
+          (input.getName() === name ||
+            input.getName().startsWith(`${name}.`)) &&
+          input.validatesOn('onBlur'),
+      )
+      .forEach((input) => {
+        input.schedule(() =>
+          form.validateInputAsync(input.getName()).catch(() => undefined),
+        );
+      });
+    refresh();
+  };
+
+  const handleSubmit: UseJevalide<
+    FormOutput<T, I>,
+    FormInput<T>
+  >['handleSubmit'] = (onValid, onInvalid) => async (event) => {
+    event?.preventDefault?.();
+    form.markSubmitted();
+    form.all().forEach((input) => input.cancelScheduled());
+    isSubmitting.value = true;
+    try {
+      if (await form.isValidAsync()) {
+        await onValid(form.validatedData() as FormOutput<T, I>, form);
+      } else {
+        await onInvalid?.(form.errors, form);
+      }
+    } finally {
+      isSubmitting.value = false;
+      refresh();
+    }
+  };
+
+  return {
+    form,
+    values: values as FormInput<T>,
+    errors,
+    touched,
+    isDirty,
+    isSubmitting,
+    locale,
+    blur,
+    handleSubmit,
+    reset: () => form.reset(),
+  };
+}
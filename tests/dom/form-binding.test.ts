@@ -0,0 +1,401 @@
+import { elementValue, FormElement } from '../../src/dom';
+import { Jevalide } from '../../src/validation/jevalide';
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('elementValue', () => {
+  const elements = (html: string, selector = 'input') => {
+    document.body.innerHTML = html;
+    return Array.from(document.querySelectorAll<FormElement>(selector));
+  };
+
+  it('should read the checkboxes', () => {
+    expect(
+      elementValue(
+        elements(`
+          <input type="checkbox" name="tags" value="a" checked>
+          <input type="checkbox" name="tags" value="b">
+          <input type="checkbox" name="tags" value="c" checked>`),
+      ),
+    ).toEqual(['a', 'c']);
+    expect(elementValue(elements('<input type="checkbox" checked>'))).toBe(
+      true,
+    );
+    expect(elementValue(elements('<input type="checkbox" value="yes">'))).toBe(
+      null,
+    );
+  });
+
+  it('should read the radios', () => {
+    const radios = elements(`
+      <input type="radio" name="size" value="s">
+      <input type="radio" name="size" value="m">`);
+
+    expect(elementValue(radios)).toBeNull();
+    (radios[1] as HTMLInputElement).checked = true;
+    expect(elementValue(radios)).toBe('m');
+  });
+
+  it('should read the multiple selects and the files', () => {
+    expect(
+      elementValue(
+        elements(
+          `<select multiple>
+            <option value="a" selected>A</option>
+            <option value="b">B</option>
+            <option value="c" selected>C</option>
+          </select>`,
+          'select',
+        ),
+      ),
+    ).toEqual(['a', 'c']);
+    expect(elementValue(elements('<input type="file">'))).toBeNull();
+    expect(elementValue(elements('<input type="file" multiple>'))).toEqual([]);
+    expect(elementValue(elements('<textarea>Hi</textarea>', 'textarea'))).toBe(
+      'Hi',
+    );
+  });
+});
+
+describe('FormBinding', () => {
+  const jevalide = Jevalide.init({ local: 'en' });
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <form id="signup">
+        <input name="email" value="john">
+        <div data-tr-feedback="email"></div>
+        <input name="profile.name" value="John">
+        <div data-tr-feedback="profile.name"></div>
+        <input name="bio">
+        <input type="checkbox" name="terms" value="yes">
+        <div data-tr-feedback="terms"></div>
+        <button type="submit">Send</button>
+      </form>`;
+  });
+
+  const element = (selector: string) =>
+    document.querySelector(selector) as HTMLInputElement;
+
+  const type = (selector: string, value: string) => {
+    element(selector).value = value;
+    element(selector).dispatchEvent(new Event('input', { bubbles: true }));
+  };
+
+  const submit = () => {
+    const event = new Event('submit', { bubbles: true, cancelable: true });
+    element('#signup').dispatchEvent(event);
+    return event;
+  };
+
+  const makeForm = () =>
+    jevalide.form(
+      {
+        email: 'required|email',
+        'profile.name': 'required|minlength:3',
+        bio: { rules: 'maxlength:5', autoValidate: false },
+        terms: 'required',
+      },
+      {},
+    );
+
+  it('should read the values of the form', () => {
+    const form = makeForm();
+    form.bind('#signup');
+
+    expect(form.getData()).toEqual({
+      email: 'john',
+      profile: { name: 'John' },
+      bio: '',
+      terms: null,
+    });
+  });
+
+  it('should validate and render the input while typing', async () => {
+    const form = makeForm();
+    form.bind('#signup');
+
+    type('[name="email"]', 'john@');
+    await flush();
+
+    expect(element('[name="email"]').classList.contains('is-invalid')).toBe(
+      true,
+    );
+    expect(element('[name="email"]').getAttribute('aria-invalid')).toBe('true');
+    expect(element('[data-tr-feedback="email"]').textContent).toBe(
+      form.errors.first('email'),
+    );
+    // The other inputs are not rendered before being validated
+    expect(element('[data-tr-feedback="terms"]').textContent).toBe('');
+
+    type('[name="email"]', 'john@example.com');
+    await flush();
+
+    expect(element('[name="email"]').classList.contains('is-valid')).toBe(true);
+    expect(element('[name="email"]').getAttribute('aria-invalid')).toBe(
+      'false',
+    );
+    expect(element('[data-tr-feedback="email"]').textContent).toBe('');
+  });
+
+  it('should only validate on submit when autoValidate is off', async () => {
+    const form = makeForm();
+    form.bind('#signup');
+
+    type('[name="bio"]', 'Too long');
+    await flush();
+
+    expect(form.getData()).toMatchObject({ bio: 'Too long' });
+    expect(element('[name="bio"]').hasAttribute('aria-invalid')).toBe(false);
+
+    submit();
+    expect(element('[name="bio"]').getAttribute('aria-invalid')).toBe('true');
+  });
+
+  it('should debounce the validation while typing', async () => {
+    jest.useFakeTimers();
+    const form = jevalide.form(
+      { email: 'required|email' },
+      {},
+      {
+        debounce: 300,
+      },
+    );
+    form.bind('#signup');
+
+    type('[name="email"]', 'john@');
+    jest.advanceTimersByTime(200);
+    expect(element('[name="email"]').hasAttribute('aria-invalid')).toBe(false);
+
+    type('[name="email"]', 'john@example.com');
+    jest.advanceTimersByTime(300);
+    jest.useRealTimers();
+    await flush();
+
+    expect(element('[name="email"]').getAttribute('aria-invalid')).toBe(
+      'false',
+    );
+  });
+
+  it('should validate on blur with the onBlur trigger', async () => {
+    const form = jevalide.form(
+      { email: { rules: 'required|email', trigger: 'onBlur' } },
+      {},
+    );
+    form.bind('#signup');
+
+    type('[name="email"]', 'john@');
+    await flush();
+    expect(element('[name="email"]').hasAttribute('aria-invalid')).toBe(false);
+
+    element('[name="email"]').dispatchEvent(
+      new Event('focusout', { bubbles: true }),
+    );
+    await flush();
+    expect(element('[name="email"]').getAttribute('aria-invalid')).toBe('true');
+  });
+
+  it('should validate a lazy input while typing after the first submit', async () => {
+    const form = jevalide.form(
+      { email: 'required|email' },
+      {},
+      {
+        trigger: 'lazy',
+      },
+    );
+    form.bind('#signup');
+
+    type('[name="email"]', 'john@');
+    await flush();
+    expect(element('[name="email"]').hasAttribute('aria-invalid')).toBe(false);
+
+    submit();
+    expect(form.submitted).toBe(true);
+    expect(element('[name="email"]').getAttribute('aria-invalid')).toBe('true');
+
+    type('[name="email"]', 'john@example.com');
+    await flush();
+    expect(element('[name="email"]').getAttribute('aria-invalid')).toBe(
+      'false',
+    );
+  });
+
+  it('should only render the touched inputs with touchedOnly', async () => {
+    const form = jevalide.form(
+      { email: 'required|email' },
+      {},
+      {
+        touchedOnly: true,
+      },
+    );
+    form.bind('#signup');
+
+    type('[name="email"]', 'john@');
+    await flush();
+    expect(element('[name="email"]').hasAttribute('aria-invalid')).toBe(false);
+
+    element('[name="email"]').dispatchEvent(
+      new Event('focusout', { bubbles: true }),
+    );
+    await flush();
+    expect(form.isTouched('email')).toBe(true);
+    expect(element('[name="email"]').getAttribute('aria-invalid')).toBe('true');
+  });
+
+  it('should restore the elements when the form is reset', async () => {
+    const form = makeForm();
+    form.bind('#signup');
+
+    type('[name="email"]', 'john@');
+    element('[name="terms"]').checked = true;
+    element('[name="terms"]').dispatchEvent(
+      new Event('change', { bubbles: true }),
+    );
+    await flush();
+    expect(form.dirtyFields()).toEqual(['email', 'terms']);
+
+    form.reset();
+    expect(element('[name="email"]').value).toBe('john');
+    expect(element('[name="terms"]').checked).toBe(false);
+    expect(element('[name="email"]').hasAttribute('aria-invalid')).toBe(false);
+    expect(element('[data-tr-feedback="email"]').textContent).toBe('');
+  });
+
+  it('should prevent the submission of an invalid form', () => {
+    const form = makeForm();
+    const onSubmit = jest.fn();
+    form.bind('#signup', { onSubmit, invalidClass: 'error' });
+
+    expect(submit().defaultPrevented).toBe(true);
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(element('[name="terms"]').classList.contains('error')).toBe(true);
+
+    element('[name="email"]').value = 'john@example.com';
+    element('[name="terms"]').checked = true;
+    expect(submit().defaultPrevented).toBe(true);
+    expect(onSubmit).toHaveBeenCalledWith(form, expect.any(Event));
+  });
+
+  it('should let a valid form submit without onSubmit', () => {
+    const form = makeForm();
+    form.bind('#signup');
+    element('[name="email"]').value = 'john@example.com';
+    element('[name="terms"]').checked = true;
+
+    expect(submit().defaultPrevented).toBe(false);
+  });
+
+  it('should wait for the asynchronous rules before submitting', async () => {
+    jevalide.rule('available', async (input) => ({
+      passes: input !== 'john@example.com',
+      value: input,
+    }));
+    const form = jevalide.form({ email: 'required|email|available' }, {});
+    const onSubmit = jest.fn();
+    form.bind('#signup', { onSubmit });
+
+    element('[name="email"]').value = 'john@example.com';
+    expect(submit().defaultPrevented).toBe(true);
+    await flush();
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(element('[name="email"]').getAttribute('aria-invalid')).toBe('true');
+
+    element('[name="email"]').value = 'jane@example.com';
+    submit();
+    await flush();
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit the events of the settled validation on submit', async () => {
+    jevalide.rule('unused', async (input) => ({
+      passes: input !== 'john@example.com',
+      value: input,
+    }));
+    const form = jevalide.form({ email: 'required|email|unused' }, {});
+    const events: string[] = [];
+    form.onPasses(() => events.push('passes'));
+    form.onFails(() => events.push('fails'));
+    const onSubmit = jest.fn();
+    form.bind('#signup', { onSubmit });
+
+    element('[name="email"]').value = 'jane@example.com';
+    submit();
+    await flush();
+    expect(events).toEqual(['passes']);
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+
+    element('[name="email"]').value = 'john@example.com';
+    expect(submit().defaultPrevented).toBe(true);
+    await flush();
+    expect(events).toEqual(['passes', 'fails']);
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should set the custom validity of the elements', () => {
+    const form = makeForm();
+    form.bind('#signup', { nativeValidity: true });
+    const invalid = jest.fn();
+    element('[name="email"]').addEventListener('invalid', invalid);
+
+    submit();
+
+    expect(element('[name="email"]').validationMessage).toBe(
+      form.errors.first('email'),
+    );
+    expect(element('[name="email"]').matches(':invalid')).toBe(true);
+    expect(invalid).toHaveBeenCalled();
+
+    element('[name="email"]').value = 'john@example.com';
+    element('[name="terms"]').checked = true;
+    submit();
+
+    expect(element('[name="email"]').validationMessage).toBe('');
+    expect(element('#signup').checkValidity()).toBe(true);
+  });
+
+  it('should read the ValidityState of the elements', () => {
+    document.body.innerHTML = `
+      <form id="contact">
+        <input name="website" type="url" value="example">
+        <input name="code" pattern="[0-9]{3}" value="12">
+      </form>`;
+    const form = jevalide.form(
+      { website: 'validity', code: 'validity:patternMismatch' },
+      {},
+    );
+    form.bind('#contact');
+
+    expect(form.isValid()).toBe(false);
+    expect(form.errors.keys()).toEqual(['website', 'code']);
+    expect(form.errors.first('website')).toBe('The website field is invalid');
+  });
+
+  it('should render the errors set on the form', () => {
+    const form = makeForm();
+    const binding = form.bind('#signup');
+
+    form.setErrors({ errors: { email: 'This email is already used' } });
+    binding.render();
+
+    expect(element('[data-tr-feedback="email"]').textContent).toBe(
+      'This email is already used',
+    );
+  });
+
+  it('should stop listening once unbound', async () => {
+    const form = makeForm();
+    form.bind('#signup').unbind();
+
+    type('[name="email"]', 'john@');
+    await flush();
+
+    expect(form.getData()).toMatchObject({ email: 'john' });
+    expect(submit().defaultPrevented).toBe(false);
+  });
+
+  it('should throw when the form element is not found', () => {
+    expect(() => makeForm().bind('#unknown')).toThrow(
+      'The form element to bind was not found',
+    );
+  });
+});
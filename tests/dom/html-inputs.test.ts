@@ -0,0 +1,109 @@
+import { scanInputs } from '../../src/dom';
+import { Jevalide } from '../../src/validation/jevalide';
+
+describe('scanInputs', () => {
+  const form = (html: string) => {
+    document.body.innerHTML = `<form id="signup">${html}</form>`;
+    return document.querySelector('#signup') as HTMLFormElement;
+  };
+
+  it('should read the data-tr attributes', () => {
+    expect(
+      scanInputs(
+        form(`
+          <input name="email"
+            data-tr-rules="required|email"
+            data-tr-messages="Email required|Email invalid"
+            data-tr-attribute="Email"
+            data-tr-fails-on-first="false">
+          <input name="name" data-tr-rules="required"
+            data-tr-messages='{"required": "Name required"}'>
+          <input name="ignored">`),
+      ),
+    ).toEqual({
+      email: {
+        name: 'email',
+        rules: ['required', 'email'],
+        messages: 'Email required|Email invalid',
+        attribute: 'Email',
+        failsOnfirst: false,
+      },
+      name: {
+        name: 'name',
+        rules: ['required'],
+        messages: { required: 'Name required' },
+      },
+    });
+  });
+
+  it('should read the first element of a group', () => {
+    expect(
+      scanInputs(
+        form(`
+          <input type="radio" name="size" value="s" data-tr-rules="required|in:s,m">
+          <input type="radio" name="size" value="m">`),
+      ),
+    ).toEqual({ size: { name: 'size', rules: ['required', 'in:s,m'] } });
+  });
+
+  it('should map the native constraints', () => {
+    const element = form(`
+      <input name="email" type="email" required maxlength="100">
+      <input name="age" type="number" min="18" max="99">
+      <input name="code" pattern="[A-Z]{2}|[0-9]{3}" data-tr-rules="required|minlength:2">
+      <select name="country" required><option value="">-</option></select>
+      <input name="name">`);
+
+    expect(scanInputs(element)).toEqual({
+      code: { name: 'code', rules: ['required', 'minlength:2'] },
+    });
+    expect(scanInputs(element, { native: true })).toEqual({
+      email: { name: 'email', rules: ['required', 'email', 'maxlength:100'] },
+      age: { name: 'age', rules: ['nullable', 'number', 'min:18', 'max:99'] },
+      code: {
+        name: 'code',
+        rules: ['required', 'minlength:2', 'regex:^(?:[A-Z]{2}|[0-9]{3})$'],
+      },
+      country: { name: 'country', rules: ['required'] },
+    });
+  });
+});
+
+describe('Jevalide.fromHtml', () => {
+  const jevalide = Jevalide.init({ local: 'en' });
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <form id="signup">
+        <input name="email" value="john" data-tr-rules="required|email">
+        <input name="code" value="AB" pattern="[A-Z]{2}|[0-9]{3}">
+        <input name="age" type="number" min="18" value="">
+      </form>`;
+  });
+
+  it('should create a form filled with the values of the elements', () => {
+    const form = jevalide.fromHtml('#signup', { native: true });
+
+    expect(form.getData()).toEqual({ email: 'john', code: 'AB', age: '' });
+    expect(form.isValid()).toBe(false);
+    expect(form.errors.keys()).toEqual(['email']);
+
+    form.mergeData({ email: 'john@example.com', code: 'ABC' });
+    expect(form.isValid()).toBe(false);
+    expect(form.errors.keys()).toEqual(['code']);
+
+    form.mergeData({ code: '123', age: '12' });
+    expect(form.isValid()).toBe(false);
+    expect(form.errors.keys()).toEqual(['age']);
+  });
+
+  it('should return the scanned inputs', () => {
+    expect(Object.keys(jevalide.scan('#signup'))).toEqual(['email']);
+  });
+
+  it('should throw when the form element is not found', () => {
+    expect(() => jevalide.scan('#unknown')).toThrow(
+      'The form element to scan was not found',
+    );
+  });
+});
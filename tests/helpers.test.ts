@@ -1,4 +1,9 @@
-import { dataset_get } from '../src/utils/helpers';
+import {
+  data_clone,
+  data_equal,
+  data_set,
+  dataset_get,
+} from '../src/utils/helpers';
 
 describe('dataset_get function', () => {
   test('should return defaults if element is null or undefined', () => {
@@ -31,3 +36,37 @@ describe('dataset_get function', () => {
     expect(dataset_get(element, 'test', 'default', true)).toBe('default');
   });
 });
+
+describe('data_clone and data_equal', () => {
+  test('should copy the plain objects and the arrays', () => {
+    const file = new File([''], 'a.txt');
+    const data = { tags: ['a', 'b'], profile: { name: 'John' }, file };
+    const copy = data_clone(data);
+
+    expect(copy).toEqual(data);
+    expect(copy.tags).not.toBe(data.tags);
+    expect(copy.profile).not.toBe(data.profile);
+    expect(copy.file).toBe(file);
+  });
+
+  test('should compare the plain objects and the arrays by content', () => {
+    expect(data_equal({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(data_equal({ a: [1, 2] }, { a: [1, 2, 3] })).toBe(false);
+    expect(data_equal({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(data_equal('1', 1)).toBe(false);
+  });
+});
+
+describe('data_set', () => {
+  it('should create the missing objects and arrays', () => {
+    expect(data_set({}, 'user.tags.0', 'a')).toEqual({
+      user: { tags: ['a'] },
+    });
+  });
+
+  it('should ignore the paths reaching the prototype', () => {
+    data_set({}, '__proto__.polluted', true);
+    data_set({}, 'constructor.prototype.polluted', true);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
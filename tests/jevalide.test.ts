@@ -174,6 +174,42 @@ describe('Jevalide', () => {
       expect(validator.getMessage('required')).toBe('Ce champ est obligatoire');
       expect(validator.getMessage('email')).toBe('Email invalide');
     });
+
+    it('should run the callbacks when the locale changes', () => {
+      const callback = jest.fn();
+      const unsubscribe = validator.onLocaleChange(callback);
+
+      validator.setLocale('fr');
+      validator.setLocale('fr');
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(callback).toHaveBeenCalledWith('fr');
+
+      unsubscribe();
+      validator.setLocale('en');
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should write the default messages in the current locale', () => {
+      const input = validator.input({
+        name: 'email',
+        rules: 'required|email',
+        messages: { email: 'Bad email' },
+      });
+      validator.setLocale('fr');
+
+      input.setValue('');
+      expect(input.getErrors()).toEqual({
+        required: 'Ce champ est obligatoire',
+      });
+      input.setValue('john');
+      expect(input.getErrors()).toEqual({ email: 'Bad email' });
+    });
+
+    it('should keep the locale with getInstance', () => {
+      validator.setLocale('fr');
+      expect(Jevalide.getInstance()).toBe(validator);
+      expect(validator.getLocale()).toBe('fr');
+    });
   });
 
   describe('Rule Execution', () => {
@@ -284,3 +320,47 @@ describe('Static Validate Method', () => {
     expect(validator.isValid()).toBe(true);
   });
 });
+
+describe('Form type inference', () => {
+  type Equals<A, B> =
+    (<V>() => V extends A ? 1 : 2) extends <V>() => V extends B ? 1 : 2
+      ? true
+      : false;
+  const assertType = <A, B>(equals: Equals<A, B>) => equals;
+
+  it('should infer the value types from the rules', () => {
+    const form = Jevalide.init().form(
+      {
+        age: 'required|integer',
+        nickname: 'nullable|string',
+        'profile.website': ['url'],
+        'items.*': { rules: 'required|number|min:1' },
+        note: 'required',
+      },
+      { age: 30, nickname: null, items: [2] },
+    );
+    type Data = Extract<ReturnType<typeof form.safeParse>, { success: true }>;
+    const data = {} as Data['data'];
+
+    expect(assertType<typeof data.age, number>(true)).toBe(true);
+    expect(assertType<typeof data.nickname, string | null>(true)).toBe(true);
+    expect(assertType<typeof data.profile.website, string>(true)).toBe(true);
+    expect(assertType<typeof data.items, number[]>(true)).toBe(true);
+    expect(assertType<typeof data.note, unknown>(true)).toBe(true);
+    expect(form.getData().items).toEqual([2]);
+  });
+
+  it('should keep the type given explicitly', () => {
+    const form = Jevalide.validate<{ name: string }>(
+      { name: 'John' },
+      { name: 'required' },
+    );
+    const result = form.safeParse();
+    const data = form.getData();
+
+    expect(
+      result.success && assertType<typeof result.data, { name: string }>(true),
+    ).toBe(true);
+    expect(assertType<typeof data, { name?: string }>(true)).toBe(true);
+  });
+});
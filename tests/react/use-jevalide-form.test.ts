@@ -0,0 +1,159 @@
+import { act, createElement } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { DeepPartial } from '../../src/contracts';
+import { useJevalideForm, UseJevalideForm } from '../../src/react';
+
+declare global {
+  // eslint-disable-next-line no-var
+  var IS_REACT_ACT_ENVIRONMENT: boolean;
+}
+globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+
+type Data = { email: string; tags: string[]; name: string };
+
+describe('useJevalideForm', () => {
+  let container: HTMLElement;
+  let root: Root;
+  let hook: UseJevalideForm<Data, DeepPartial<Data>>;
+  let renders = 0;
+
+  const Form = ({ config }: { config?: object }) => {
+    hook = useJevalideForm<Data>(
+      { email: 'required|email', 'tags.*': 'required', name: 'required' },
+      { email: 'john', tags: ['a'], name: '' },
+      config,
+    );
+    renders++;
+    const email = hook.register('email');
+    return createElement(
+      'form',
+      null,
+      createElement('input', { ...email, id: 'email' }),
+      createElement('input', {
+        ...hook.register('tags', 'b'),
+        type: 'checkbox',
+        id: 'tag-b',
+      }),
+      createElement('p', { id: 'error' }, hook.errors.email ?? ''),
+    );
+  };
+
+  const render = (config?: object) =>
+    act(() => {
+      root.render(createElement(Form, { config }));
+    });
+
+  const element = (selector: string) =>
+    container.querySelector(selector) as HTMLInputElement;
+
+  // Change the value like the user, so React sees it
+  const type = (selector: string, value: string) => {
+    const input = element(selector);
+    const setter = Object.getOwnPropertyDescriptor(
+      HTMLInputElement.prototype,
+      'value',
+    )?.set;
+    setter?.call(input, value);
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+  };
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+    renders = 0;
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  it('should render the values and validate on change', async () => {
+    await render();
+    expect(element('#email').value).toBe('john');
+    expect(hook.errors).toEqual({});
+
+    await act(async () => type('#email', 'john@'));
+
+    expect(hook.values.email).toBe('john@');
+    expect(hook.isDirty).toBe(true);
+    expect(element('#error').textContent).toBe(hook.form.errors.first('email'));
+
+    await act(async () => type('#email', 'john@example.com'));
+    expect(element('#error').textContent).toBe('');
+  });
+
+  it('should toggle the value of a checkbox in the array', async () => {
+    await render();
+    expect(element('#tag-b').checked).toBe(false);
+
+    await act(async () => element('#tag-b').click());
+    expect(hook.values.tags).toEqual(['a', 'b']);
+    expect(element('#tag-b').checked).toBe(true);
+
+    await act(async () => element('#tag-b').click());
+    expect(hook.values.tags).toEqual(['a']);
+  });
+
+  it('should leave the value of a file input out', async () => {
+    await render();
+    const file = new File(['avatar'], 'avatar.png', { type: 'image/png' });
+    await act(async () => hook.setValue('avatar', file));
+
+    const props = hook.register('avatar');
+    expect(props).not.toHaveProperty('value');
+    // The DOM throws when a file input gets a value
+    const input = document.createElement('input');
+    input.type = 'file';
+    expect(() => Object.assign(input, props)).not.toThrow();
+    expect(hook.register('email').value).toBe('john');
+  });
+
+  it('should mark the input touched on blur', async () => {
+    await render({ touchedOnly: true });
+    await act(async () => type('#email', 'john@'));
+    expect(hook.errors).toEqual({});
+
+    await act(async () => hook.register('email').onBlur());
+    expect(hook.touched).toEqual({ email: true });
+    expect(hook.errors.email).toBeTruthy();
+  });
+
+  it('should call onValid with the validated data', async () => {
+    await render();
+    const onValid = jest.fn();
+    const onInvalid = jest.fn();
+    const preventDefault = jest.fn();
+
+    await act(() => hook.handleSubmit(onValid, onInvalid)({ preventDefault }));
+    expect(preventDefault).toHaveBeenCalled();
+    expect(onValid).not.toHaveBeenCalled();
+    expect(onInvalid).toHaveBeenCalledWith(hook.form.errors, hook.form);
+    expect(Object.keys(hook.errors)).toEqual(['email', 'name']);
+
+    await act(async () => {
+      hook.setValue('email', 'john@example.com');
+      hook.setValue('name', 'John');
+    });
+    await act(() => hook.handleSubmit(onValid)());
+    expect(onValid).toHaveBeenCalledWith(
+      { email: 'john@example.com', tags: ['a'], name: 'John' },
+      hook.form,
+    );
+    expect(hook.isSubmitting).toBe(false);
+  });
+
+  it('should keep the form across renders and reset it', async () => {
+    await render();
+    const form = hook.form;
+    await act(async () => type('#email', 'jane'));
+    await render();
+    expect(hook.form).toBe(form);
+    expect(renders).toBeGreaterThan(2);
+
+    await act(async () => hook.reset());
+    expect(element('#email').value).toBe('john');
+    expect(hook.isDirty).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  distinct,
+  includesItem,
+  itemsBetween,
+  makeArrayOf,
+  maxItems,
+  minItems,
+} from '../../src/rules/array';
+import { email, minRule } from '../../src/rules';
+import { RuleCallBack } from '../../src/contracts';
+
+describe('minItems', () => {
+  test('should check the minimum number of items', () => {
+    expect(minItems([1, 2], '2').passes).toBe(true);
+    expect(minItems([1], '2').passes).toBe(false);
+    expect(minItems('ab', '2').passes).toBe(false);
+  });
+
+  test('should throw when the parameter is not a number', () => {
+    expect(() => minItems([1], 'two')).toThrow();
+  });
+});
+
+describe('maxItems', () => {
+  test('should check the maximum number of items', () => {
+    expect(maxItems([1, 2], '2').passes).toBe(true);
+    expect(maxItems([1, 2, 3], '2').passes).toBe(false);
+    expect(maxItems(null, '2').passes).toBe(false);
+  });
+});
+
+describe('itemsBetween', () => {
+  test('should check the number of items within the range', () => {
+    expect(itemsBetween([1], '1,3').passes).toBe(true);
+    expect(itemsBetween([1, 2, 3], '1,3').passes).toBe(true);
+    expect(itemsBetween([], '1,3').passes).toBe(false);
+    expect(itemsBetween([1, 2, 3, 4], '1,3').passes).toBe(false);
+  });
+
+  test('should throw without a maximum', () => {
+    expect(() => itemsBetween([1], '1')).toThrow();
+  });
+});
+
+describe('distinct', () => {
+  test('should check that the items are unique', () => {
+    expect(distinct(['a', 'b', 'c']).passes).toBe(true);
+    expect(distinct(['a', 'b', 'a']).passes).toBe(false);
+    expect(distinct([{ id: 1 }, { id: 1 }]).passes).toBe(false);
+    expect(distinct('abc').passes).toBe(false);
+  });
+
+  test('should compare the items by the value at the path', () => {
+    const users = [
+      { email: 'a@example.com', name: 'A' },
+      { email: 'b@example.com', name: 'A' },
+    ];
+    expect(distinct(users, 'email').passes).toBe(true);
+    expect(distinct(users, 'name').passes).toBe(false);
+    expect(
+      distinct(
+        [{ address: { city: 'Paris' } }, { address: { city: 'Paris' } }],
+        'address.city',
+      ).passes,
+    ).toBe(false);
+  });
+});
+
+describe('includesItem', () => {
+  test('should check that the array contains each item', () => {
+    expect(includesItem(['read', 'write'], 'read').passes).toBe(true);
+    expect(includesItem(['read', 'write'], 'read,write').passes).toBe(true);
+    expect(includesItem(['read'], 'read,write').passes).toBe(false);
+    expect(includesItem([1, 2], '2').passes).toBe(true);
+  });
+
+  test('should throw without item', () => {
+    expect(() => includesItem(['read'])).toThrow();
+  });
+});
+
+describe('arrayOf', () => {
+  const rules: Record<string, RuleCallBack> = { email, min: minRule };
+  const arrayOf = makeArrayOf((name) => rules[name]);
+
+  test('should run the rule on each item and give the failed items', () => {
+    const state = arrayOf(
+      ['a@example.com', 'nope', 'b@example.com', ''],
+      'email',
+    );
+
+    expect(state.passes).toBe(false);
+    expect(state.items).toEqual({
+      1: { rule: 'email', params: undefined, value: 'nope' },
+      3: { rule: 'email', params: undefined, value: '' },
+    });
+    expect(arrayOf(['a@example.com'], 'email').passes).toBe(true);
+    expect(arrayOf([], 'email').passes).toBe(true);
+  });
+
+  test('should give the parameters of the rule and take its alias', () => {
+    const state = arrayOf(['abc', 'a'], 'min:2');
+
+    expect(state.passes).toBe(false);
+    expect(state.items).toEqual({
+      1: { rule: 'minlength', params: '2', value: 'a' },
+    });
+  });
+
+  test('should fail when the input is not an array', () => {
+    expect(arrayOf('a@example.com', 'email').passes).toBe(false);
+  });
+
+  test('should throw for an unknown rule', () => {
+    expect(() => arrayOf(['a'], 'unknown')).toThrow(
+      'The rule unknown is not defined',
+    );
+  });
+});
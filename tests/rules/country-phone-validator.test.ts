@@ -1,4 +1,6 @@
 import { CountryPhoneValidator } from '../../src/rules/phone/country-phone-validator';
+import { phoneCountries } from '../../src/rules/phone/countries';
+import { getCountry, registerCountry } from '../../src/rules/phone/registry';
 
 describe('CountryPhoneValidator', () => {
   it('should validate a phone number in Togo', () => {
@@ -30,10 +32,108 @@ describe('CountryPhoneValidator', () => {
     const validator = new CountryPhoneValidator('06 23 45 67 89');
     expect(validator.validPhoneNumber()).toBe(true);
   });
-  it('should throw an error for an invalid country code', () => {
+  it('should reject the numbers of an unknown country code', () => {
     const validator = new CountryPhoneValidator('+22812345678', 'XX');
-    expect(() => validator.validPhoneNumber()).toThrowError(
-      "Validator method 'validateXX' does not exist.",
+    expect(validator.validPhoneNumber()).toBe(false);
+    expect(validator.parse()).toBeNull();
+    expect(
+      new CountryPhoneValidator('+22812345678', 'TG,XX').validPhoneNumber(),
+    ).toBe(false);
+  });
+
+  it('should validate a phone number given as a number', () => {
+    expect(new CountryPhoneValidator(90123456, 'TG').validPhoneNumber()).toBe(
+      true,
+    );
+  });
+
+  it('should know every ISO 3166 country', () => {
+    expect(Object.keys(phoneCountries)).toHaveLength(249);
+    expect(
+      new CountryPhoneValidator('+4915123456789', 'DE').validPhoneNumber(),
+    ).toBe(true);
+    expect(
+      new CountryPhoneValidator('+81312345678', 'JP').validPhoneNumber(),
+    ).toBe(true);
+    expect(
+      new CountryPhoneValidator('+5511912345678', 'BR').validPhoneNumber(),
+    ).toBe(true);
+  });
+
+  it('should check the length and the pattern of the national number', () => {
+    expect(
+      new CountryPhoneValidator('+3361234567', 'FR').validPhoneNumber(),
+    ).toBe(false);
+    expect(
+      new CountryPhoneValidator('+33012345678', 'FR').validPhoneNumber(),
+    ).toBe(false);
+    expect(
+      new CountryPhoneValidator('+14155552671', 'FR').validPhoneNumber(),
+    ).toBe(false);
+    expect(
+      new CountryPhoneValidator('+24431234567', 'AO').validPhoneNumber(),
+    ).toBe(false);
+  });
+
+  it('should accept the national format with the national prefix', () => {
+    expect(
+      new CountryPhoneValidator('06 12 34 56 78', 'FR').validPhoneNumber(),
+    ).toBe(true);
+    expect(
+      new CountryPhoneValidator('020 7183 8750', 'GB').validPhoneNumber(),
+    ).toBe(true);
+    expect(
+      new CountryPhoneValidator('0033612345678', 'FR').validPhoneNumber(),
+    ).toBe(true);
+  });
+
+  it('should accept the national format without an optional national prefix', () => {
+    expect(
+      new CountryPhoneValidator('4155552671', 'US').validPhoneNumber(),
+    ).toBe(true);
+    expect(
+      new CountryPhoneValidator('(415) 555-2671', 'US').validPhoneNumber(),
+    ).toBe(true);
+    expect(
+      new CountryPhoneValidator('6 12 34 56 78', 'FR').validPhoneNumber(),
+    ).toBe(false);
+  });
+});
+
+describe('registerCountry', () => {
+  it('should add a country', () => {
+    registerCountry('xk', {
+      callingCode: '383',
+      nationalPrefix: '0',
+      lengths: [8, 9],
+    });
+
+    expect(getCountry('XK')?.callingCode).toBe('383');
+    expect(
+      new CountryPhoneValidator('+38344123456', 'XK').validPhoneNumber(),
+    ).toBe(true);
+  });
+
+  it('should override the numbering plan of a country', () => {
+    const country = getCountry('TG');
+    registerCountry('TG', {
+      pattern: /^9\d{7}$/,
+      types: { mobile: /^9\d{7}$/ },
+    });
+
+    expect(
+      new CountryPhoneValidator('+22812345678', 'TG').validPhoneNumber(),
+    ).toBe(false);
+    expect(
+      new CountryPhoneValidator('+22891234567', 'TG').validPhoneNumber(),
+    ).toBe(true);
+    expect(getCountry('TG')?.types?.landline).toEqual(country?.types?.landline);
+    registerCountry('TG', { ...country, pattern: undefined });
+  });
+
+  it('should need the calling code and the lengths of a new country', () => {
+    expect(() => registerCountry('ZZ', { lengths: [8] })).toThrow(
+      "The country 'ZZ' needs a calling code and the lengths of its numbers",
     );
   });
 });
@@ -1,9 +1,12 @@
+import dayjs from 'dayjs';
 import {
   dateAfter,
   dateBefore,
   dateBetween,
+  dateFormat,
   isDate,
 } from '../../src/rules/date';
+import { setClock } from '../../src/utils';
 
 describe('isDate', () => {
   test('should return true for a valid date in UTC format', () => {
@@ -152,3 +155,121 @@ describe('dateBetween', () => {
     );
   });
 });
+
+describe('dateFormat', () => {
+  const context = { data: {}, path: 'birthday', dateFormat: 'DD/MM/YYYY' };
+
+  test('should read the date strictly in the format', () => {
+    expect(dateFormat('31/12/2024', 'DD/MM/YYYY').passes).toBe(true);
+    expect(dateFormat('31/02/2024', 'DD/MM/YYYY').passes).toBe(false);
+    expect(dateFormat('2024-12-31', 'DD/MM/YYYY').passes).toBe(false);
+    expect(dateFormat('1/2/2024', 'DD/MM/YYYY').passes).toBe(false);
+    expect(dateFormat('2024-12-31 08:30', 'YYYY-MM-DD HH:mm').passes).toBe(
+      true,
+    );
+  });
+
+  test('should normalize the date in ISO 8601', () => {
+    expect(dateFormat('01/02/2024', 'DD/MM/YYYY').value).toBe(
+      dayjs('2024-02-01').toISOString(),
+    );
+    expect(dateFormat('01/02/2024', 'MM/DD/YYYY').value).toBe(
+      dayjs('2024-01-02').toISOString(),
+    );
+  });
+
+  test('should take the format of the form by default', () => {
+    expect(dateFormat('31/12/2024', undefined, 'date', context).passes).toBe(
+      true,
+    );
+    expect(dateFormat('12/31/2024', undefined, 'date', context).alias).toBe(
+      'date',
+    );
+    expect(() => dateFormat('31/12/2024')).toThrow();
+  });
+
+  test('should be used by the other date rules', () => {
+    expect(isDate('31/12/2024', undefined, 'date', context).passes).toBe(true);
+    expect(isDate('12/31/2024', undefined, 'date', context).passes).toBe(false);
+    expect(dateBefore('31/12/2024', '01/01/2025', 'date', context).passes).toBe(
+      true,
+    );
+    expect(dateAfter('01/02/2024', '31/01/2024', 'date', context).passes).toBe(
+      true,
+    );
+    expect(
+      dateBetween('15/06/2024', '01/06/2024,2024-06-30', 'date', context).value,
+    ).toBe(dayjs('2024-06-15').toISOString());
+  });
+
+  test('should accept the ISO dates normalized by a previous rule', () => {
+    const value = dayjs('2024-12-31').toISOString();
+    expect(dateBefore(value, '01/01/2025', 'date', context).passes).toBe(true);
+    expect(() => dateAfter(value, '2025/01/01', 'date', context)).toThrow();
+  });
+});
+
+describe('relative dates', () => {
+  beforeEach(() => setClock(() => new Date('2024-06-15T10:00:00.000Z')));
+  afterEach(() => setClock());
+
+  test('should read the keywords from the clock', () => {
+    expect(dateBefore('2024-06-15T09:00:00.000Z', 'now').passes).toBe(true);
+    expect(dateAfter('2024-06-15T11:00:00.000Z', 'now').passes).toBe(true);
+    expect(dateBefore('2024-06-20T00:00:00.000Z', 'endOfMonth').passes).toBe(
+      true,
+    );
+    expect(dateAfter('2024-05-31T00:00:00.000Z', 'startOfMonth').passes).toBe(
+      false,
+    );
+  });
+
+  test('should add an offset to the current date', () => {
+    expect(dateBefore('2024-07-14T00:00:00.000Z', '+30 days').passes).toBe(
+      true,
+    );
+    expect(dateBefore('2024-07-16T00:00:00.000Z', '+30 days').passes).toBe(
+      false,
+    );
+    expect(dateBefore('2006-06-14T00:00:00.000Z', '-18 years').passes).toBe(
+      true,
+    );
+    expect(dateBefore('2006-06-16T00:00:00.000Z', '-18 years').passes).toBe(
+      false,
+    );
+    expect(
+      dateBetween('2024-06-20T00:00:00.000Z', 'today,+1 week').passes,
+    ).toBe(true);
+  });
+
+  test('should compute the relative dates in the timezone of the form', () => {
+    const context = { data: {}, path: 'start', timezone: 'Asia/Tokyo' };
+    // 19:00 in Tokyo, the day started at 15:00 UTC the day before
+    expect(
+      dateAfter('2024-06-14T16:00:00.000Z', 'today', 'date', context).passes,
+    ).toBe(true);
+    expect(
+      dateAfter('2024-06-14T16:00:00.000Z', 'today', 'date', {
+        ...context,
+        timezone: 'America/New_York',
+      }).passes,
+    ).toBe(false);
+  });
+
+  test('should read the dates without offset in the timezone of the form', () => {
+    const context = { data: {}, path: 'start', timezone: 'America/New_York' };
+    expect(isDate('2024-05-10', undefined, 'date', context).value).toBe(
+      '2024-05-10T04:00:00.000Z',
+    );
+    expect(
+      dateFormat('10/05/2024 08:00', 'DD/MM/YYYY HH:mm', 'date', context).value,
+    ).toBe('2024-05-10T12:00:00.000Z');
+    expect(
+      isDate('2024-05-10T00:00:00Z', undefined, 'date', context).value,
+    ).toBe('2024-05-10T00:00:00.000Z');
+  });
+
+  test('should throw for an unknown expression', () => {
+    expect(() => dateBefore('2024-06-15', '+30 fortnights')).toThrow();
+  });
+});
@@ -1,7 +1,12 @@
 import {
   size,
+  validity,
   between,
   required,
+  requiredIf,
+  requiredUnless,
+  requiredWith,
+  requiredWhen,
   regex,
   inInput,
   only,
@@ -484,3 +489,123 @@ describe('isArray rule', () => {
     expect(isArray(arr, '0,invalid,2').passes).toBe(true); // seuls les index valides sont vérifiés
   });
 });
+
+describe('conditional required rules', () => {
+  const context = {
+    data: {
+      country: 'US',
+      payment: 'card',
+      address: { street: 'Main street', city: '' },
+    },
+    path: 'state',
+  };
+
+  describe('requiredIf', () => {
+    it('should require the value when the other field matches', () => {
+      expect(requiredIf('', 'country,US,CA', 'text', context).passes).toBe(
+        false,
+      );
+      expect(requiredIf('NY', 'country,US', 'text', context).passes).toBe(true);
+    });
+
+    it('should not require the value when the other field does not match', () => {
+      expect(requiredIf('', 'country,FR', 'text', context).passes).toBe(true);
+    });
+
+    it('should read nested fields', () => {
+      expect(
+        requiredIf('', 'address.street,Main street', 'text', context).passes,
+      ).toBe(false);
+    });
+
+    it('should throw when the values are missing', () => {
+      expect(() => requiredIf('', 'country', 'text', context)).toThrow();
+    });
+  });
+
+  describe('requiredUnless', () => {
+    it('should not require the value when the other field matches', () => {
+      expect(requiredUnless('', 'payment,card', 'text', context).passes).toBe(
+        true,
+      );
+    });
+
+    it('should require the value when the other field does not match', () => {
+      expect(requiredUnless('', 'payment,cash', 'text', context).passes).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('requiredWith', () => {
+    it('should require the value when any other field is present', () => {
+      expect(
+        requiredWith('', 'address.street,address.city', 'text', context).passes,
+      ).toBe(false);
+    });
+
+    it('should not require the value when no other field is present', () => {
+      expect(requiredWith('', 'address.city,zip', 'text', context).passes).toBe(
+        true,
+      );
+    });
+  });
+
+  describe('requiredWhen', () => {
+    it('should require the value when all other fields are present', () => {
+      expect(
+        requiredWhen('', 'country,address.street', 'text', context).passes,
+      ).toBe(false);
+    });
+
+    it('should not require the value when one field is missing', () => {
+      expect(
+        requiredWhen('', 'address.street,address.city', 'text', context).passes,
+      ).toBe(true);
+    });
+  });
+
+  it('should not require anything without a context', () => {
+    expect(requiredIf('', 'country,US').passes).toBe(true);
+    expect(requiredWith('', 'country').passes).toBe(true);
+  });
+});
+
+describe('validity', () => {
+  const context = (html: string) => {
+    document.body.innerHTML = html;
+    return {
+      data: {},
+      path: 'field',
+      element: document.querySelector<HTMLElement>('input'),
+    };
+  };
+
+  it('should fail when a ValidityState flag is set', () => {
+    const email = context('<input type="email" value="john">');
+
+    expect(validity('john', undefined, undefined, email).passes).toBe(false);
+    expect(validity('john', 'patternMismatch', undefined, email).passes).toBe(
+      true,
+    );
+    expect(validity('john', 'typeMismatch', undefined, email).passes).toBe(
+      false,
+    );
+  });
+
+  it('should ignore the custom validity', () => {
+    const input = context('<input pattern="[0-9]+" value="12">');
+    (input.element as HTMLInputElement).setCustomValidity('Jevalide error');
+
+    expect(validity('12', undefined, undefined, input).passes).toBe(true);
+    expect(validity('12', 'customError', undefined, input).passes).toBe(true);
+  });
+
+  it('should pass without form element', () => {
+    expect(validity('john').passes).toBe(true);
+    expect(
+      validity('john', undefined, undefined, { data: {}, path: 'field' })
+        .passes,
+    ).toBe(true);
+  });
+});
@@ -1,4 +1,9 @@
-import { phone } from '../../src/rules/phone';
+import { phone, phoneType } from '../../src/rules/phone';
+import {
+  formatPhone,
+  isPhoneType,
+  parsePhone,
+} from '../../src/rules/phone/phone-number';
 
 describe('phone', () => {
   it('should return true for a valid phone number', () => {
@@ -20,4 +25,175 @@ describe('phone', () => {
     const validFRPhoneNumber = '+33123456789';
     expect(phone(validFRPhoneNumber, 'US,FR,BJ').passes).toBe(true);
   });
+
+  it('should return false for an unknown country code', () => {
+    expect(phone('+33612345678', 'XX').passes).toBe(false);
+    expect(phone('+33612345678', 'FR,mobil').passes).toBe(false);
+  });
+});
+
+describe('phone normalization', () => {
+  it('should give the number in E.164 format', () => {
+    expect(phone('+33 6 12-34-56-78').value).toBe('+33612345678');
+    expect(phone('0033 6 12 34 56 78', 'FR').value).toBe('+33612345678');
+    expect(phone('+1 (415) 555-2671').value).toBe('+14155552671');
+  });
+
+  it('should read a national number with the first country as default region', () => {
+    expect(phone('06 12 34 56 78', 'FR').value).toBe('+33612345678');
+    expect(phone('90 12 34 56', 'TG,FR').value).toBe('+22890123456');
+    expect(phone('(415) 555-2671', 'US').value).toBe('+14155552671');
+    expect(phone('1 415 555 2671', 'US').value).toBe('+14155552671');
+  });
+
+  it('should fail a national number validated without country', () => {
+    const result = phone('06 23 45 67 89');
+    expect(result.passes).toBe(false);
+    expect(result.alias).toBe('phoneRegion');
+  });
+
+  it('should give the E.164 format of an international number validated globally', () => {
+    expect(phone('+999 1234 567 890').value).toBe('+9991234567890');
+    expect(phone('00 999 1234 567 890').value).toBe('+9991234567890');
+  });
+
+  it('should give the format given among the parameters', () => {
+    expect(phone('+33612345678', 'FR,national').value).toBe('06 12 34 56 78');
+    expect(phone('0612345678', 'FR,international').value).toBe(
+      '+33 6 12 34 56 78',
+    );
+    expect(phone('+14155552671', 'US,national').value).toBe('(415) 555-2671');
+    expect(phone('+442071838750', 'international').value).toBe(
+      '+44 20 7183 8750',
+    );
+    expect(phone('+22890123456', 'international').value).toBe('+22890123456');
+  });
+});
+
+describe('parsePhone', () => {
+  it('should give the country, the national number and the type', () => {
+    expect(parsePhone('06 12 34 56 78', 'FR')).toEqual({
+      country: 'FR',
+      callingCode: '33',
+      nationalNumber: '612345678',
+      type: 'mobile',
+      e164: '+33612345678',
+    });
+    expect(parsePhone('+33 1 23 45 67 89')?.type).toBe('landline');
+    expect(parsePhone('+22370123456')?.type).toBe('fixedLineOrMobile');
+    expect(parsePhone('+14155552671')?.type).toBe('fixedLineOrMobile');
+  });
+
+  it('should classify the numbers with the ranges of the country', () => {
+    expect(parsePhone('+393123456789')?.type).toBe('mobile');
+    expect(parsePhone('+390612345678')?.type).toBe('landline');
+    expect(parsePhone('+819012345678')?.type).toBe('mobile');
+    expect(parsePhone('+81312345678')?.type).toBe('landline');
+    expect(parsePhone('+5511912345678')?.type).toBe('mobile');
+    expect(parsePhone('+551123456789')?.type).toBe('landline');
+    expect(parsePhone('+61412345678')?.type).toBe('mobile');
+    expect(parsePhone('+61212345678')?.type).toBe('landline');
+    expect(parsePhone('+79161234567')?.type).toBe('mobile');
+    expect(parsePhone('+74951234567')?.type).toBe('landline');
+    expect(parsePhone('+78001234567')?.type).toBe('tollFree');
+  });
+
+  it('should find the main country of a shared calling code', () => {
+    expect(parsePhone('+14155552671')?.country).toBe('US');
+    expect(parsePhone('+447911123456')?.country).toBe('GB');
+    expect(parsePhone('+79161234567')?.country).toBe('RU');
+  });
+
+  it('should return null for an invalid number', () => {
+    expect(parsePhone('+3361234')).toBeNull();
+    expect(parsePhone('0612345678')).toBeNull();
+    expect(parsePhone('+14155552671', ['FR', 'BE'])).toBeNull();
+  });
+});
+
+describe('formatPhone', () => {
+  const parsed = parsePhone('+33612345678');
+
+  it('should display the number in each format', () => {
+    expect(parsed && formatPhone(parsed)).toBe('+33612345678');
+    expect(parsed && formatPhone(parsed, 'international')).toBe(
+      '+33 6 12 34 56 78',
+    );
+    expect(parsed && formatPhone(parsed, 'national')).toBe('06 12 34 56 78');
+  });
+
+  it('should read again a number displayed in national format', () => {
+    const american = parsePhone('+14155552671');
+    const national = american && formatPhone(american, 'national');
+    expect(national).toBe('(415) 555-2671');
+    expect(national && parsePhone(national, 'US')).toEqual(american);
+  });
+
+  it('should use the template matching the leading digits', () => {
+    const london = parsePhone('+442071838750');
+    expect(london && formatPhone(london, 'national')).toBe('020 7183 8750');
+    const mobile = parsePhone('+447911123456');
+    expect(mobile && formatPhone(mobile, 'national')).toBe('07911 123456');
+  });
+
+  it('should give the E.164 format for the countries without template', () => {
+    const number = parsePhone('+2290197123456');
+    expect(number && formatPhone(number, 'international')).toBe(
+      '+2290197123456',
+    );
+    const italian = parsePhone('+393123456789');
+    expect(italian && formatPhone(italian, 'national')).toBe('+393123456789');
+  });
+});
+
+describe('phone types', () => {
+  it('should accept the numbers of the types given to the phone rule', () => {
+    expect(phone('06 12 34 56 78', 'FR,mobile').passes).toBe(true);
+    expect(phone('01 23 45 67 89', 'FR,mobile').passes).toBe(false);
+    expect(phone('09 12 34 56 78', 'FR,mobile,voip').passes).toBe(true);
+    expect(phone('08 00 12 34 56', 'FR,tollFree,national').value).toBe(
+      '08 00 12 34 56',
+    );
+  });
+
+  it('should give the message of the expected type', () => {
+    expect(phone('01 23 45 67 89', 'FR,mobile').alias).toBe('mobilePhone');
+    expect(phone('01 23 45 67 89', 'FR,mobile,voip').alias).toBe('phoneType');
+    expect(phoneType('+33123456789', 'landline').alias).toBe('landlinePhone');
+  });
+
+  it('should check the type of an international number', () => {
+    expect(phoneType('+33612345678', 'mobile').passes).toBe(true);
+    expect(phoneType('+33612345678', 'landline,voip').passes).toBe(false);
+    expect(phoneType('+18005551234', 'tollFree').passes).toBe(true);
+    expect(phoneType('0612345678', 'mobile').passes).toBe(false);
+  });
+
+  it('should reject the numbers whose country does not tell their type', () => {
+    expect(phone('+22320212345', 'ML,mobile').passes).toBe(false);
+    expect(phone('+22370123456', 'ML,landline').passes).toBe(false);
+    expect(phoneType('+14155552671', 'mobile').passes).toBe(false);
+    expect(phone('+390612345678', 'IT,mobile').passes).toBe(false);
+    expect(phoneType('+393123456789', 'mobile').passes).toBe(true);
+  });
+
+  it('should accept the numbers whose country does not tell their type when asked', () => {
+    expect(phone('+22320212345', 'ML,mobile,fixedLineOrMobile').passes).toBe(
+      true,
+    );
+    expect(phoneType('+14155552671', 'fixedLineOrMobile').passes).toBe(true);
+    expect(phoneType('+33612345678', 'fixedLineOrMobile').passes).toBe(true);
+    expect(phoneType('+18005551234', 'fixedLineOrMobile').passes).toBe(false);
+  });
+
+  it('should throw for an unknown type', () => {
+    expect(() => phoneType('+33612345678', 'fax')).toThrow();
+    expect(() => phoneType('+33612345678')).toThrow();
+  });
+
+  it('should tell if a parsed number is of a type', () => {
+    const parsed = parsePhone('+447911123456');
+    expect(parsed && isPhoneType(parsed, ['mobile'])).toBe(true);
+    expect(parsed && isPhoneType(parsed, ['landline', 'premium'])).toBe(false);
+  });
 });
@@ -0,0 +1,143 @@
+import { Infer, j } from '../../src/schema';
+import { Jevalide } from '../../src/validation/jevalide';
+
+describe('Schema builder', () => {
+  const jevalide = Jevalide.init({ local: 'en' });
+
+  it('should compile the rules in the order of the chain', () => {
+    expect(j.string().required().minlength(3).maxlength(10).toRules()).toEqual([
+      { name: 'required' },
+      { name: 'string' },
+      { name: 'minlength', params: 3 },
+      { name: 'maxlength', params: 10 },
+    ]);
+  });
+
+  it('should put nullable before the type rule', () => {
+    expect(j.string().nullable().toRules()).toEqual([
+      { name: 'nullable' },
+      { name: 'string' },
+    ]);
+  });
+
+  it('should join the parameters with commas', () => {
+    expect(j.number().between(18, 40).toRules()).toEqual([
+      { name: 'number' },
+      { name: 'numberBetween', params: '18,40' },
+    ]);
+    expect(j.string().requiredIf('role', 'admin', 'editor').toRules()).toEqual([
+      { name: 'requiredIf', params: 'role,admin,editor' },
+      { name: 'string' },
+    ]);
+  });
+
+  it('should set the message of the last rule', () => {
+    expect(j.string().minlength(3).message('Too short').toRules()[1]).toEqual({
+      name: 'minlength',
+      params: 3,
+      message: 'Too short',
+    });
+  });
+
+  it('should compile the object and array items to dotted paths', () => {
+    const schema = j.object({
+      name: j.string().required(),
+      address: j.object({ city: j.string() }),
+      tags: j.array(j.string().maxlength(5)),
+    });
+
+    expect(Object.keys(schema.compile())).toEqual([
+      'name',
+      'address',
+      'address.city',
+      'tags',
+      'tags.*',
+    ]);
+    expect(schema.compile('user')['user.tags.*'].rules).toEqual([
+      { name: 'string' },
+      { name: 'maxlength', params: 5 },
+    ]);
+  });
+
+  it('should validate a form built from a schema', () => {
+    const form = jevalide.form(
+      j.object({
+        name: j.string().required().minlength(3),
+        age: j.number().integer().between(18, 40),
+        tags: j.array(j.string().maxlength(5)),
+      }),
+      { name: 'Jo', age: 50, tags: ['short', 'too long'] },
+    );
+
+    expect(form.isValid()).toBe(false);
+    expect(form.get('name')?.getErrors()).toEqual({
+      minlength: 'The minimum number of allowed characters is: 3',
+    });
+    expect(form.get('age')?.passes()).toBe(false);
+    expect(form.get('tags.0')?.passes()).toBe(true);
+    expect(form.get('tags.1')?.passes()).toBe(false);
+
+    form.mergeData({ name: 'John', age: 30, tags: ['short', 'tiny'] });
+    expect(form.isValid()).toBe(true);
+  });
+
+  it('should accept schemas next to pipe-strings', () => {
+    const form = jevalide.form(
+      {
+        email: 'required|email',
+        password: j
+          .string()
+          .required()
+          .regex(/^[a-z|:]+$/),
+      },
+      { email: 'john@example.com', password: 'a|b:c' },
+    );
+
+    expect(form.isValid()).toBe(true);
+  });
+
+  it('should reach the custom rules of the bag', () => {
+    jevalide.rule(
+      'even',
+      (input) => ({ passes: Number(input) % 2 === 0, value: input }),
+      'The :field field must be even',
+    );
+    const input = jevalide.input({
+      ...j.number().rule('even').toParams('count'),
+    });
+
+    expect(input.fill(3).valid()).toBe(false);
+    expect(input.getErrors()).toEqual({
+      even: 'The count field must be even',
+    });
+    expect(input.fill(4).valid()).toBe(true);
+  });
+
+  it('should read a date in a format', () => {
+    expect(j.date().required().format('DD/MM/YYYY').toRules()).toEqual([
+      { name: 'required' },
+      { name: 'dateFormat', params: 'DD/MM/YYYY' },
+    ]);
+  });
+
+  it('should throw when a schema has no input name', () => {
+    expect(() => jevalide.form([j.string()], {})).toThrow(
+      'A schema must be given with the input name as key',
+    );
+  });
+
+  it('should infer the type of the validated value', () => {
+    const schema = j.object({
+      name: j.string(),
+      age: j.number().nullable(),
+      tags: j.array(j.string()),
+    });
+    const value: Infer<typeof schema> = {
+      name: 'John',
+      age: null,
+      tags: ['a'],
+    };
+
+    expect(value.tags).toEqual(['a']);
+  });
+});
@@ -1,4 +1,4 @@
-import { Bag, Validation } from '../src/validation';
+import { Bag, InputValidator, Validation } from '../src/validation';
 import { InputRule } from '../src/messages';
 import { Local } from '../src/locale/local';
 const bag = new Bag(new Local());
@@ -151,3 +151,170 @@ describe('Validation messages', () => {
     });
   });
 });
+
+describe('Validation with asynchronous rules', () => {
+  const asyncBag = new Bag(new Local());
+  let validation: Validation;
+  const resolvers: ((passes: boolean) => void)[] = [];
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  asyncBag.addRule('available', (input) => {
+    return new Promise((resolve) => {
+      resolvers.push((passes) => resolve({ passes, value: input }));
+    });
+  });
+
+  beforeEach(() => {
+    resolvers.length = 0;
+    validation = new Validation(asyncBag.trLocal);
+    validation.setRules(new InputRule(asyncBag, ['required', 'available']));
+  });
+
+  test('validate() should mark the asynchronous rule as pending', () => {
+    validation.value = 'john';
+    expect(validation.passes()).toBe(false);
+    expect(validation.pending).toBe(true);
+    expect(validation.getErrors()).toEqual({});
+  });
+
+  test('validateAsync() should wait for the asynchronous rule', async () => {
+    const result = validation.fill('john').validateAsync();
+    expect(validation.pending).toBe(true);
+    await flush();
+    resolvers[0](true);
+
+    expect(await result).toBe(true);
+    expect(validation.pending).toBe(false);
+  });
+
+  test('validateAsync() should report asynchronous failures', async () => {
+    const result = validation.fill('john').validateAsync();
+    await flush();
+    resolvers[0](false);
+
+    expect(await result).toBe(false);
+    expect(validation.getErrors()).toHaveProperty('available');
+  });
+
+  test('validateAsync() should not call the asynchronous rule after a sync failure', async () => {
+    expect(await validation.fill('').validateAsync()).toBe(false);
+    expect(resolvers).toHaveLength(0);
+  });
+
+  test('validateAsync() should fail a rejected rule', async () => {
+    asyncBag.addRule('unreachable', () =>
+      Promise.reject(new Error('Network error')),
+    );
+    validation.setRules(new InputRule(asyncBag, ['required', 'unreachable']));
+
+    expect(await validation.fill('john').validateAsync()).toBe(false);
+    expect(validation.pending).toBe(false);
+    expect(validation.getErrors()).toHaveProperty('unreachable');
+  });
+
+  test('a stale run should not overwrite the latest result', async () => {
+    const first = validation.fill('taken').validateAsync();
+    await flush();
+    const second = validation.fill('john').validateAsync();
+    await flush();
+
+    resolvers[1](true);
+    expect(await second).toBe(true);
+
+    resolvers[0](false);
+    expect(await first).toBe(true);
+    expect(validation.passes()).toBe(true);
+  });
+});
+
+describe('Validation rule hooks', () => {
+  let inputRule: InputRule;
+  let validation: Validation;
+
+  beforeEach(() => {
+    inputRule = new InputRule(bag, ['required', 'minlength:3']);
+    validation = new Validation(bag.trLocal);
+    validation.failsOnFirst = false;
+    validation.setRules(inputRule);
+  });
+
+  test('before hooks should receive the value and params', () => {
+    const hook = jest.fn();
+    inputRule.addHook('before.minlength.run', hook);
+    validation.value = 'ab';
+
+    expect(hook).toHaveBeenCalledTimes(1);
+    expect(hook.mock.calls[0][0]).toMatchObject({
+      rule: 'minlength',
+      value: 'ab',
+      params: '3',
+    });
+  });
+
+  test('before hooks can replace the value', () => {
+    inputRule.addHook('before.required.run', (event) => {
+      event.value = (event.value as string).trim();
+    });
+    validation.value = '  abc  ';
+    expect(validation.passes()).toBe(true);
+    expect(validation.value).toBe('abc');
+
+    validation.value = '  ab  ';
+    expect(validation.passes()).toBe(false);
+  });
+
+  test('before hooks can skip the rule', () => {
+    inputRule.addHook('before.minlength.run', (event) => event.skip());
+    validation.value = 'ab';
+    expect(validation.passes()).toBe(true);
+  });
+
+  test('after hooks should receive the rule result', () => {
+    const run = jest.fn();
+    const passes = jest.fn();
+    const fails = jest.fn();
+    inputRule
+      .addHook('after.minlength.run', run)
+      .addHook('after.required.passes', passes)
+      .addHook('after.minlength.fails', fails);
+    validation.value = 'ab';
+
+    expect(run.mock.calls[0][0].executed.passed).toBe(false);
+    expect(passes).toHaveBeenCalledTimes(1);
+    expect(fails.mock.calls[0][0].executed.message).toContain('3');
+  });
+
+  test('removed hooks should not run', () => {
+    const hook = jest.fn();
+    inputRule.addHook('after.required.run', hook);
+    inputRule.removeHook('after.required.run', hook);
+    validation.value = 'abc';
+    expect(hook).not.toHaveBeenCalled();
+  });
+
+  test('InputValidator should register its rule hooks', () => {
+    const input = new InputValidator(bag, {
+      name: 'username',
+      rules: 'required|minlength:3',
+    });
+    const before = jest.fn();
+    const fails = jest.fn();
+    input.beforeRunRule('minlength:3', before).onRuleFails('minlength', fails);
+    input.setValue('ab');
+
+    expect(before.mock.calls[0][1]).toBe(input);
+    expect(fails).toHaveBeenCalledTimes(1);
+  });
+
+  test('InputValidator should remove its rule hooks', () => {
+    const input = new InputValidator(bag, {
+      name: 'username',
+      rules: 'required|minlength:3',
+    });
+    const fails = jest.fn();
+    input.onRuleFails(['required', 'minlength'], fails).offRule(fails);
+    input.setValue('ab');
+
+    expect(fails).not.toHaveBeenCalled();
+  });
+});
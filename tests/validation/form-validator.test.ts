@@ -1,4 +1,6 @@
+import dayjs from 'dayjs';
 import { FormValidator } from '../../src/validation';
+import { setClock } from '../../src/utils';
 import { Jevalide } from '../../src/validation/jevalide';
 interface FormData {
   name: string;
@@ -142,6 +144,23 @@ describe('FormValidator', () => {
         expect(failsCallback).toHaveBeenCalledTimes(1);
         expect(passesCallback).not.toHaveBeenCalled();
       });
+
+      it('should trigger onValidate once per form validation', () => {
+        const validateCallback = jest.fn();
+        formValidator.onValidate(validateCallback);
+        formValidator.isValid();
+
+        expect(validateCallback).toHaveBeenCalledTimes(1);
+      });
+
+      it('should trigger onValidate when an input is validated', () => {
+        const validateCallback = jest.fn();
+        formValidator.onValidate(validateCallback);
+        formValidator.get('name')?.setValue('John');
+
+        expect(validateCallback).toHaveBeenCalledTimes(1);
+        expect(validateCallback).toHaveBeenCalledWith(formValidator);
+      });
     });
     describe('with', () => {
       it('should apply external validation rule', () => {
@@ -158,7 +177,7 @@ describe('FormValidator', () => {
         formValidator.mergeData({ name: 'Jo' });
         formValidator
           .with((form) => {
-            return form.getData().email.includes('@');
+            return !!form.getData().email?.includes('@');
           })
           .with((form) => {
             return form.getData().name != 'Jo';
@@ -177,6 +196,185 @@ describe('FormValidator', () => {
     });
   });
 
+  describe('Cross-field rules', () => {
+    it('should read sibling values from the form data', () => {
+      const shipping = form(
+        {
+          country: 'required',
+          state: 'requiredIf:country,US',
+          'address.zip': 'requiredWith:address.street',
+        },
+        { country: 'US', address: { street: 'Main street' } },
+      );
+
+      expect(shipping.isValid()).toBe(false);
+      expect(shipping.errors.toObject()).toEqual({
+        state: [
+          'The state field is required when the country field has the current value',
+        ],
+        'address.zip': [
+          'The address.zip field is required when any of the address.street fields is present',
+        ],
+      });
+
+      shipping.mergeData({ country: 'FR', address: { street: '' } });
+      expect(shipping.isValid()).toBe(true);
+    });
+  });
+
+  describe('Field references', () => {
+    it('should compare with the value of the referenced field', () => {
+      const signup = form(
+        {
+          password: { rules: 'required|minlength:6', attribute: 'Password' },
+          password_confirmation: 'required|same:@password',
+        },
+        { password: 'secret', password_confirmation: 'secrets' },
+      );
+
+      expect(signup.isValid()).toBe(false);
+      expect(signup.errors.first('password_confirmation')).toBe(
+        'This field must be identical to the value of the Password field',
+      );
+
+      signup.mergeData({ password_confirmation: 'secret' });
+      expect(signup.isValid()).toBe(true);
+    });
+
+    it('should resolve nested paths and dates', () => {
+      const booking = form(
+        {
+          'stay.start': 'required|date',
+          'stay.end': 'required|date|after:@stay.start',
+        },
+        { stay: { start: '2024-05-10', end: '2024-05-01' } },
+      );
+
+      expect(booking.isValid()).toBe(false);
+      expect(booking.errors.first('stay.end')).toBe(
+        'The date must be after (stay.start)',
+      );
+
+      booking.mergeData({ stay: { start: '2024-05-10', end: '2024-05-12' } });
+      expect(booking.isValid()).toBe(true);
+    });
+
+    it('should fail the rules referencing an empty or missing field', () => {
+      const booking = form(
+        {
+          start: 'nullable|date',
+          end: 'required|date|after:@start',
+          min: 'nullable|number',
+          price: 'required|gthan:@min',
+        },
+        { start: '', end: '2024-05-12', price: 12 },
+      );
+
+      expect(() => booking.isValid()).not.toThrow();
+      expect(booking.isValid()).toBe(false);
+      expect(booking.errors.first('end')).toBe(
+        'The date must be after (start)',
+      );
+      expect(booking.errors.keys()).toEqual(['end', 'price']);
+    });
+
+    it('should resolve the wildcards with the indexes of the input', () => {
+      const pricing = form(
+        { 'prices.*': 'required|gthan:@costs.*' },
+        { prices: [12, 8], costs: [10, 10] },
+      );
+
+      expect(pricing.isValid()).toBe(false);
+      expect(pricing.errors.keys()).toEqual(['prices.1']);
+    });
+
+    it('should keep the parameters naming no field literal', () => {
+      const signup = form(
+        { email: 'required|email|endWith:@gmail.com' },
+        { email: 'john@gmail.com' },
+      );
+
+      expect(signup.isValid()).toBe(true);
+      signup.setValue('email', 'john@yahoo.com');
+      expect(signup.isValid()).toBe(false);
+      expect(signup.errors.first('email')).toContain('@gmail.com');
+    });
+  });
+
+  describe('Asynchronous validation', () => {
+    const jevalide = Jevalide.init();
+    const taken = ['john', 'jane'];
+    jevalide.rule(
+      'available',
+      (input) =>
+        Promise.resolve({
+          passes: !taken.includes(input as string),
+          value: input,
+        }),
+      'This username is already taken',
+    );
+
+    let asyncForm: FormValidator<{ username: string }>;
+    let passesCallback: jest.Mock;
+    let failsCallback: jest.Mock;
+
+    beforeEach(() => {
+      asyncForm = jevalide.form(
+        { username: 'required|available' },
+        { username: '' },
+      );
+      passesCallback = jest.fn();
+      failsCallback = jest.fn();
+      asyncForm.onPasses(passesCallback);
+      asyncForm.onFails(failsCallback);
+    });
+
+    it('should resolve to true when asynchronous rules pass', async () => {
+      asyncForm.mergeData({ username: 'claude' });
+      await expect(asyncForm.isValidAsync()).resolves.toBe(true);
+      expect(passesCallback).toHaveBeenCalledTimes(1);
+      expect(failsCallback).not.toHaveBeenCalled();
+    });
+
+    it('should resolve to false when an asynchronous rule fails', async () => {
+      asyncForm.mergeData({ username: 'john' });
+      await expect(asyncForm.isValidAsync()).resolves.toBe(false);
+      expect(failsCallback).toHaveBeenCalledTimes(1);
+      expect(asyncForm.errors.get('username')).toEqual([
+        'This username is already taken',
+      ]);
+    });
+
+    it('should only emit the events of the latest validation', async () => {
+      asyncForm.mergeData({ username: 'john' });
+      const stale = asyncForm.isValidAsync();
+      asyncForm.mergeData({ username: 'claude' });
+      const latest = asyncForm.isValidAsync();
+
+      await Promise.all([stale, latest]);
+      expect(failsCallback).not.toHaveBeenCalled();
+      expect(passesCallback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not emit the events while a rule is pending', async () => {
+      asyncForm.mergeData({ username: 'claude' });
+      expect(asyncForm.isValid()).toBe(false);
+      expect(failsCallback).not.toHaveBeenCalled();
+
+      await asyncForm.isValidAsync();
+      expect(passesCallback).toHaveBeenCalledTimes(1);
+      expect(failsCallback).not.toHaveBeenCalled();
+    });
+
+    it('should flag the input as pending until validated asynchronously', async () => {
+      const input = asyncForm.get('username');
+      input?.setValue('claude');
+      expect(input?.pending).toBe(true);
+      await input?.validateAsync();
+      expect(input?.pending).toBe(false);
+    });
+  });
+
   describe('Wildcard Validation Tests', () => {
     const { form } = Jevalide.init();
 
@@ -289,3 +487,525 @@ describe('FormValidator', () => {
     });
   });
 });
+
+describe('Nested wildcards', () => {
+  const makeForm = () =>
+    Jevalide.init().form(
+      {
+        'orders.*.items.*.sku': 'required|minlength:3',
+        'orders.*.items.*.qty': 'required|integer',
+        'users.*.email': 'required|email',
+      },
+      {
+        orders: [
+          {
+            items: [
+              { sku: 'abc', qty: 1 },
+              { sku: 'x', qty: 2 },
+            ],
+          },
+          { items: [{ sku: 'def' }] },
+        ],
+        users: { admin: { email: 'admin@example.com' } },
+      },
+    );
+
+  it('should create an input for each item of every level', () => {
+    const form = makeForm();
+
+    expect(form.all().map((input) => input.getName())).toEqual([
+      'orders.0.items.0.sku',
+      'orders.0.items.1.sku',
+      'orders.1.items.0.sku',
+      'orders.0.items.0.qty',
+      'orders.0.items.1.qty',
+      'orders.1.items.0.qty',
+      'users.admin.email',
+    ]);
+    expect(form.get('orders.0.items.1.sku')).not.toBe(
+      form.get('orders.1.items.0.sku'),
+    );
+  });
+
+  it('should report the errors with the indexes of the items', () => {
+    const form = makeForm();
+
+    expect(form.isValid()).toBe(false);
+    expect(form.errors.keys()).toEqual([
+      'orders.0.items.1.sku',
+      'orders.1.items.0.qty',
+    ]);
+    expect(form.errors.has('orders.*.items.*.sku')).toBe(true);
+    expect(form.errors.toNested()).toEqual({
+      orders: [
+        {
+          items: [undefined, { sku: form.errors.get('orders.0.items.1.sku') }],
+        },
+        { items: [{ qty: form.errors.get('orders.1.items.0.qty') }] },
+      ],
+    });
+  });
+
+  it('should follow the length of the arrays', () => {
+    const form = makeForm();
+    const kept = form.get('orders.0.items.0.sku');
+
+    form.mergeData({ orders: [{ items: [{ sku: 'abc', qty: 1 }] }] });
+    expect(form.all().map((input) => input.getName())).toEqual([
+      'orders.0.items.0.sku',
+      'orders.0.items.0.qty',
+      'users.admin.email',
+    ]);
+    expect(form.get('orders.0.items.0.sku')).toBe(kept);
+    expect(form.isValid()).toBe(true);
+
+    form.setValue('orders.0.items.1', { sku: 'gh' });
+    expect(form.has('orders.0.items.1.qty')).toBe(true);
+    expect(form.isValid()).toBe(false);
+    expect(form.errors.keys()).toEqual([
+      'orders.0.items.1.sku',
+      'orders.0.items.1.qty',
+    ]);
+  });
+
+  it('should give the validated data of the items', () => {
+    const form = makeForm();
+    form.setValue('orders.0.items.1.sku', 'xyz');
+    form.setValue('orders.1.items.0.qty', 3);
+
+    expect(form.isValid()).toBe(true);
+    expect(form.validatedData()).toEqual({
+      orders: [
+        {
+          items: [
+            { sku: 'abc', qty: 1 },
+            { sku: 'xyz', qty: 2 },
+          ],
+        },
+        { items: [{ sku: 'def', qty: 3 }] },
+      ],
+      users: { admin: { email: 'admin@example.com' } },
+    });
+  });
+});
+
+describe('Validated data', () => {
+  const jevalide = Jevalide.init();
+
+  it('should return the values given by the rules, nested like the data', () => {
+    const form = jevalide.form(
+      {
+        name: 'required|string',
+        'profile.birthday': 'required|date',
+        'profile.subscribed': 'boolean',
+        'tags.*': 'required|string',
+      },
+      {
+        name: 'John',
+        profile: { birthday: '2000-01-01', subscribed: 'yes' },
+        tags: ['a', 'b'],
+        ignored: 'not validated',
+      },
+    );
+
+    expect(form.isValid()).toBe(true);
+    expect(form.validatedData()).toEqual({
+      name: 'John',
+      profile: {
+        birthday: new Date('2000-01-01').toISOString(),
+        subscribed: true,
+      },
+      tags: ['a', 'b'],
+    });
+  });
+
+  it('should not expand the wildcards on the keys reaching the prototype', () => {
+    const form = jevalide.form(
+      { 'users.*.email': 'required|email' },
+      JSON.parse('{"users":{"__proto__":{"email":"a@b.co"}}}'),
+    );
+
+    form.isValid();
+    expect(form.validatedData()).toEqual({});
+    expect(({} as Record<string, unknown>).email).toBeUndefined();
+  });
+
+  it('should only hold the inputs that passed', () => {
+    const form = jevalide.form(
+      {
+        name: 'required|string',
+        email: 'required|email',
+        items: 'array',
+        'items.*': 'required|integer',
+      },
+      { name: 'John', email: 'bad', items: [1, 'x', 3] },
+    );
+
+    form.isValid();
+    const data = form.validatedData();
+
+    expect(data).toEqual({ name: 'John', items: [1, undefined, 3] });
+    expect(1 in (data.items as unknown[])).toBe(false);
+  });
+
+  it('should return the errors when the form fails', () => {
+    const form = jevalide.form(
+      { name: 'required|string', email: 'required|email' },
+      { name: 'John', email: 'bad' },
+    );
+
+    const result = form.safeParse();
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.data).toEqual({ name: 'John' });
+      expect(result.errors.keys()).toEqual(['email']);
+    }
+
+    form.mergeData({ email: 'john@example.com' });
+    expect(form.safeParse()).toEqual({
+      success: true,
+      data: { name: 'John', email: 'john@example.com' },
+    });
+  });
+
+  it('should wait for the asynchronous rules', async () => {
+    jevalide.rule('available', async (input) => ({
+      passes: input !== 'taken',
+      value: String(input).toLowerCase(),
+    }));
+    const form = jevalide.form(
+      { username: 'required|available' },
+      { username: 'John' },
+    );
+
+    expect(await form.safeParseAsync()).toEqual({
+      success: true,
+      data: { username: 'john' },
+    });
+  });
+});
+
+describe('Error bag', () => {
+  it('should hold every message of the inputs', () => {
+    const form = Jevalide.init().form(
+      {
+        email: { rules: 'required|email|minlength:12', failsOnfirst: false },
+        'items.*': 'required|number',
+      },
+      { email: 'bad', items: ['x', 10] },
+    );
+
+    expect(form.isValid()).toBe(false);
+    expect(form.errors.get('email')).toHaveLength(2);
+    expect(Object.keys(form.errors.rules('email'))).toEqual([
+      'email',
+      'minlength',
+    ]);
+    expect(form.errors.has('items.*')).toBe(true);
+    expect(form.errors.count()).toBe(3);
+    expect(form.errors.toNested()).toEqual({
+      email: form.errors.get('email'),
+      items: [form.errors.get('items.0')],
+    });
+  });
+
+  it('should only hold the messages of the rules run the last time', () => {
+    const form = Jevalide.init().form(
+      { email: 'required|email' },
+      { email: 'abc' },
+    );
+
+    expect(form.isValid()).toBe(false);
+    form.setValue('email', '');
+    expect(form.isValid()).toBe(false);
+    expect(form.errors.get('email')).toEqual(['This field is required']);
+    expect(form.errors.count()).toBe(1);
+  });
+});
+
+describe('Field state', () => {
+  const makeForm = (config = {}) =>
+    Jevalide.init().form(
+      {
+        name: 'required',
+        'profile.city': 'required',
+        'tags.*': 'required',
+      },
+      { name: 'John', profile: { city: 'Paris' }, tags: ['a'] },
+      config,
+    );
+
+  it('should list the fields changed from the initial data', () => {
+    const form = makeForm();
+    expect(form.isDirty()).toBe(false);
+    expect(form.isPristine()).toBe(true);
+
+    form.setValue('profile.city', 'Lyon');
+    form.setValue('tags.1', 'b');
+    expect(form.dirtyFields()).toEqual(['profile.city', 'tags.1']);
+    expect(form.isDirty('name')).toBe(false);
+    expect(form.isPristine('profile.city')).toBe(false);
+
+    form.setValue('profile.city', 'Paris');
+    expect(form.isDirty('profile.city')).toBe(false);
+    expect(form.isPristine('profile.city')).toBe(false);
+  });
+
+  it('should restore the initial data on reset', () => {
+    const form = makeForm();
+    form.setValue('name', '');
+    form.setValue('profile.city', 'Lyon');
+    form.touch('name');
+    form.markSubmitted();
+    expect(form.isValid()).toBe(false);
+
+    const reset = jest.fn();
+    form.onReset(reset);
+    form.reset();
+
+    expect(form.getData()).toEqual({
+      name: 'John',
+      profile: { city: 'Paris' },
+      tags: ['a'],
+    });
+    expect(form.isPristine()).toBe(true);
+    expect(form.isTouched()).toBe(false);
+    expect(form.submitted).toBe(false);
+    expect(form.errors.isEmpty()).toBe(true);
+    expect(reset).toHaveBeenCalledWith(form);
+  });
+
+  it('should reset to the data of the last snapshot', () => {
+    const form = makeForm();
+    form.setValue('name', 'Jane').snapshot();
+    expect(form.dirtyFields()).toEqual([]);
+
+    form.setValue('name', 'Joe').reset();
+    expect(form.value('name')).toBe('Jane');
+  });
+
+  it('should only surface the errors of the touched inputs', () => {
+    const form = makeForm({ touchedOnly: true });
+    form.setValue('name', '');
+    form.setValue('profile.city', '');
+    expect(form.isValid()).toBe(false);
+    expect(form.errors.isEmpty()).toBe(true);
+    const result = form.safeParse();
+    expect(!result.success && result.errors.count()).toBe(2);
+
+    form.touch('profile');
+    expect(form.errors.keys()).toEqual(['profile.city']);
+
+    form.markSubmitted();
+    expect(form.errors.keys()).toEqual(['name', 'profile.city']);
+  });
+});
+
+describe('Server errors', () => {
+  it('should serialize the errors with the rule and the rejected value', () => {
+    const form = Jevalide.init().form({ age: 'required|min:18' }, { age: 12 });
+
+    form.isValid();
+
+    expect(form.errors.toJsonApi().errors[0].meta).toEqual({
+      path: 'age',
+      rule: 'min',
+      params: '18',
+      value: 12,
+    });
+  });
+
+  it('should display the errors of a server response until the input is validated', () => {
+    const form = Jevalide.init().form(
+      { email: 'required|email', name: 'required' },
+      { email: 'john@example.com', name: 'John' },
+    );
+
+    form.isValid();
+    form.setErrors({
+      type: 'about:blank',
+      title: 'Conflict',
+      status: 409,
+      errors: [{ pointer: '#/email', detail: 'This email is already used' }],
+    });
+
+    expect(form.errors.first('email')).toBe('This email is already used');
+
+    form.get('name')?.valid();
+    expect(form.errors.has('email')).toBe(true);
+
+    form.get('email')?.valid();
+    expect(form.errors.isEmpty()).toBe(true);
+  });
+
+  it('should ignore the server errors whose path reaches the prototype', () => {
+    const form = Jevalide.init().form({ email: 'email' }, { email: '' });
+
+    form.setErrors(JSON.parse('{"errors":{"__proto__.isAdmin":["x"]}}'));
+    form.errors.toNested();
+
+    expect(form.errors.isEmpty()).toBe(true);
+    expect(({} as Record<string, unknown>).isAdmin).toBeUndefined();
+  });
+});
+
+describe('Array rules', () => {
+  const makeForm = () =>
+    Jevalide.init().form(
+      {
+        tags: 'array|maxItems:3|arrayOf:minlength:3',
+        emails: 'array|distinct|arrayOf:email',
+      },
+      {
+        tags: ['news', 'js'],
+        emails: ['a@example.com', 'nope', 'b@example.com'],
+      },
+    );
+
+  it('should report an error for each failed item', () => {
+    const form = makeForm();
+
+    expect(form.isValid()).toBe(false);
+    const errors = form.errors;
+    expect(errors.keys()).toEqual(['tags', 'tags.1', 'emails', 'emails.1']);
+    expect(errors.first('tags')).toBe('Some items of this field are invalid');
+    expect(errors.first('tags.1')).toBe(
+      'The minimum number of allowed characters is: 3',
+    );
+    expect(errors.get('emails.*')).toEqual([
+      'Please enter a valid email address',
+    ]);
+    expect(errors.items()[1].value).toBe('js');
+  });
+
+  it('should drop the errors of the items once they pass', () => {
+    const form = makeForm();
+    form.isValid();
+    form.setValue('tags', ['news', 'javascript']);
+
+    expect(form.validateInput('tags')).toBe(true);
+    expect(form.errors.has('tags.*')).toBe(false);
+  });
+
+  it('should use the message given to arrayOf for the items', () => {
+    const form = Jevalide.init().form(
+      {
+        tags: {
+          rules: 'arrayOf:minlength:3',
+          messages: { arrayOf: 'Each tag needs :arg0 characters' },
+        },
+      },
+      { tags: ['js'] },
+    );
+
+    expect(form.isValid()).toBe(false);
+    expect(form.errors.first('tags.0')).toBe('Each tag needs 3 characters');
+  });
+});
+
+describe('Object shapes', () => {
+  const makeForm = () =>
+    Jevalide.init().form(
+      {
+        address: {
+          rules: 'required|object',
+          shape: {
+            city: 'required',
+            geo: { rules: 'object', shape: { lat: 'number' } },
+          },
+          unknownKeys: 'strip',
+        },
+        settings: {
+          rules: 'json',
+          shape: { theme: 'in:dark,light' },
+          unknownKeys: 'strict',
+        },
+      },
+      {
+        address: { city: '', geo: { lat: 'north' }, note: 'back door' },
+        settings: '{"theme":"blue","beta":true}',
+      },
+    );
+
+  it('should report the errors of the keys with dotted paths', () => {
+    const form = makeForm();
+
+    expect(form.isValid()).toBe(false);
+    expect(form.errors.keys()).toEqual([
+      'address',
+      'address.city',
+      'address.geo',
+      'address.geo.lat',
+      'settings',
+      'settings.theme',
+      'settings.beta',
+    ]);
+    expect(form.errors.first('address.city')).toBe('This field is required');
+    expect(form.errors.first('settings.beta')).toBe(
+      'The beta key is not allowed',
+    );
+    expect(form.errors.items()[3].value).toBe('north');
+  });
+
+  it('should give the validated object without the stripped keys', () => {
+    const form = makeForm();
+    form.setValue('address', { city: 'Paris', geo: { lat: 48.8 }, note: '' });
+    form.setValue('settings', '{"theme":"dark"}');
+
+    expect(form.isValid()).toBe(true);
+    expect(form.validatedData()).toEqual({
+      address: { city: 'Paris', geo: { lat: 48.8 } },
+      settings: { theme: 'dark' },
+    });
+  });
+});
+
+describe('Date formats', () => {
+  const { form } = Jevalide.init();
+
+  afterEach(() => setClock());
+
+  it('should read the dates with the format of the form', () => {
+    const booking = form(
+      {
+        start: 'required|date',
+        end: 'required|date|after:@start',
+        birthday: 'dateFormat:YYYY-MM-DD',
+      },
+      { start: '10/05/2024', end: '01/05/2024', birthday: '01/02/1990' },
+      { dateFormat: 'DD/MM/YYYY' },
+    );
+
+    expect(booking.isValid()).toBe(false);
+    expect(booking.errors.first('end')).toBe('The date must be after (start)');
+    expect(booking.errors.first('birthday')).toBe(
+      'This field must be a valid date in the format YYYY-MM-DD',
+    );
+
+    booking.mergeData({ end: '12/05/2024', birthday: '1990-02-01' });
+    expect(booking.isValid()).toBe(true);
+    expect(booking.validatedData()).toEqual({
+      start: dayjs('2024-05-10').toISOString(),
+      end: dayjs('2024-05-12').toISOString(),
+      birthday: dayjs('1990-02-01').toISOString(),
+    });
+  });
+
+  it('should check the relative dates in the timezone of the form', () => {
+    setClock(() => new Date('2024-06-15T02:00:00.000Z'));
+    const booking = form(
+      { arrival: 'required|date|after:today|before:+30 days' },
+      { arrival: '2024-06-14' },
+      { timezone: 'America/New_York' },
+    );
+
+    // It's still the 14th in New York
+    expect(booking.isValid()).toBe(false);
+    booking.mergeData({ arrival: '2024-06-14 18:00' });
+    expect(booking.isValid()).toBe(true);
+    expect(booking.validatedData()).toEqual({
+      arrival: '2024-06-14T22:00:00.000Z',
+    });
+  });
+});
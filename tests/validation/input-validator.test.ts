@@ -0,0 +1,217 @@
+import { Local } from '../../src/locale/local';
+import { Bag, InputValidator } from '../../src/validation';
+
+describe('InputValidator', () => {
+  const bag = new Bag(new Local());
+  let input: InputValidator;
+
+  beforeEach(() => {
+    input = new InputValidator(bag, {
+      name: 'username',
+      rules: 'required|minlength:3',
+    });
+  });
+
+  describe('lifecycle hooks', () => {
+    it('should execute input.updated when the value changes', () => {
+      const updated = jest.fn();
+      input.onUpdate(updated);
+      input.setValue('john');
+      input.setValue('john');
+      input.value = 'jane';
+
+      expect(updated).toHaveBeenCalledTimes(2);
+      expect(updated).toHaveBeenCalledWith(input);
+    });
+
+    it('should execute input.validated after each validation', () => {
+      const validated = jest.fn();
+      input.onValidate(validated);
+      input.setValue('john');
+      input.valid();
+
+      expect(validated).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only execute input.fails on pass to fail transitions', () => {
+      const fails = jest.fn();
+      const passes = jest.fn();
+      input.onFails(fails);
+      input.onPasses(passes);
+
+      input.setValue('jo');
+      input.setValue('j');
+      expect(fails).toHaveBeenCalledTimes(1);
+      expect(passes).not.toHaveBeenCalled();
+
+      input.setValue('john');
+      input.setValue('johnny');
+      expect(passes).toHaveBeenCalledTimes(1);
+
+      input.setValue('');
+      expect(fails).toHaveBeenCalledTimes(2);
+    });
+
+    it('should remove a callback with the returned function', () => {
+      const validated = jest.fn();
+      const unsubscribe = input.onValidate(validated);
+      input.setValue('john');
+      unsubscribe();
+      input.setValue('jane');
+
+      expect(validated).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove a callback with off', () => {
+      const updated = jest.fn();
+      input.onUpdate(updated);
+      input.off('input.updated', updated).setValue('john');
+
+      expect(updated).not.toHaveBeenCalled();
+    });
+
+    it('should execute the hooks once asynchronous rules settled', async () => {
+      input.rule('available', (value) =>
+        Promise.resolve({ passes: value !== 'john', value }),
+      );
+      input.appendRule({ rule: 'available' });
+      const fails = jest.fn();
+      input.onFails(fails);
+
+      input.setValue('john');
+      expect(fails).not.toHaveBeenCalled();
+
+      await input.validateAsync();
+      expect(fails).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('validation triggers', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should debounce the validation of setValue', () => {
+      const validated = jest.fn();
+      input.setParams({ debounce: 300 }).onValidate(validated);
+
+      input.setValue('j');
+      input.setValue('jo');
+      jest.advanceTimersByTime(299);
+      expect(validated).not.toHaveBeenCalled();
+
+      input.setValue('joh');
+      jest.advanceTimersByTime(300);
+      expect(validated).toHaveBeenCalledTimes(1);
+      expect(input.hasPassed()).toBe(true);
+    });
+
+    it('should settle the asynchronous rules of a debounced validation', async () => {
+      const taken = jest.fn((value: unknown) =>
+        Promise.resolve({ passes: value !== 'john', value }),
+      );
+      input.rule('taken', taken);
+      input.appendRule({ rule: 'taken' });
+      const fails = jest.fn();
+      input.setParams({ debounce: 10 }).onFails(fails);
+
+      input.setValue('john');
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(taken).toHaveBeenCalledTimes(1);
+      expect(input.pending).toBe(false);
+      expect(Object.keys(input.getErrors())).toEqual(['taken']);
+      expect(fails).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throttle the validation of setValue', () => {
+      const validated = jest.fn();
+      input.setParams({ throttle: 100 }).onValidate(validated);
+
+      input.setValue('j');
+      input.setValue('jo');
+      input.setValue('joh');
+      expect(validated).toHaveBeenCalledTimes(1);
+      expect(input.hasPassed()).toBe(false);
+
+      jest.advanceTimersByTime(100);
+      expect(validated).toHaveBeenCalledTimes(2);
+      expect(input.hasPassed()).toBe(true);
+    });
+
+    it('should only validate on the events of the trigger', () => {
+      const validated = jest.fn();
+      input.setParams({ trigger: 'onBlur' }).onValidate(validated);
+
+      input.setValue('jo');
+      expect(validated).not.toHaveBeenCalled();
+      input.blur();
+      expect(validated).toHaveBeenCalledTimes(1);
+
+      input.setParams({ trigger: 'onSubmit' });
+      input.setValue('john');
+      input.blur();
+      expect(validated).toHaveBeenCalledTimes(1);
+    });
+
+    it('should validate a lazy input once its form is submitted', () => {
+      const validated = jest.fn();
+      input.setParams({ trigger: 'lazy' }).onValidate(validated);
+
+      input.setValue('jo');
+      expect(input.validatesOn('onChange')).toBe(false);
+      expect(validated).not.toHaveBeenCalled();
+
+      input.markSubmitted();
+      input.setValue('john');
+      expect(validated).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not validate on change when autoValidate is off', () => {
+      input.setParams({ autoValidate: false });
+
+      expect(input.triggers).toEqual(['onSubmit']);
+      expect(input.validatesOn('onChange')).toBe(false);
+    });
+  });
+
+  describe('field state', () => {
+    it('should compare the value to the initial value', () => {
+      input.setInitialValue('john');
+      input.fill('john');
+      expect(input.isDirty()).toBe(false);
+      expect(input.isPristine()).toBe(true);
+
+      input.setValue('jane');
+      expect(input.isDirty()).toBe(true);
+      expect(input.isPristine()).toBe(false);
+
+      input.setValue('john');
+      expect(input.isDirty()).toBe(false);
+      expect(input.isPristine()).toBe(false);
+    });
+
+    it('should be touched once blurred', () => {
+      expect(input.isTouched()).toBe(false);
+      input.blur();
+      expect(input.isTouched()).toBe(true);
+    });
+
+    it('should restore the initial value on reset', () => {
+      input.setInitialValue('john');
+      input.setValue('j');
+      input.blur();
+      expect(input.hasPassed()).toBe(false);
+
+      input.reset();
+      expect(input.getValue()).toBe('john');
+      expect(input.isPristine()).toBe(true);
+      expect(input.isTouched()).toBe(false);
+      expect(input.getErrors()).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { ErrorBag } from '../../../src/validation/utils/error-bag';
+
+describe('ErrorBag', () => {
+  let errors: ErrorBag;
+
+  beforeEach(() => {
+    errors = new ErrorBag()
+      .add('email', 'required', 'The email field is required')
+      .add('email', 'email', 'The email field must be an email')
+      .add('items.0.price', 'number', 'The price must be a number')
+      .add('items.2.price', 'min', 'The price must be at least 1')
+      .add('items.2.name', 'required', 'The name field is required');
+  });
+
+  it('should get every message of a path', () => {
+    expect(errors.get('email')).toEqual([
+      'The email field is required',
+      'The email field must be an email',
+    ]);
+    expect(errors.get('name')).toEqual([]);
+  });
+
+  it('should get the first message', () => {
+    expect(errors.first('email')).toBe('The email field is required');
+    expect(errors.first('items.1.price')).toBeNull();
+    expect(errors.first()).toBe('The email field is required');
+  });
+
+  it('should query the paths with wildcards', () => {
+    expect(errors.get('items.*.price')).toEqual([
+      'The price must be a number',
+      'The price must be at least 1',
+    ]);
+    expect(errors.has('items.*.name')).toBe(true);
+    expect(errors.has('items.*')).toBe(false);
+    expect(errors.count('items.2.*')).toBe(2);
+  });
+
+  it('should key the messages by rule', () => {
+    expect(errors.rules('email')).toEqual({
+      required: 'The email field is required',
+      email: 'The email field must be an email',
+    });
+  });
+
+  it('should replace the message of the same rule', () => {
+    errors.add('email', 'required', 'Email is required');
+
+    expect(errors.get('email')).toEqual([
+      'The email field must be an email',
+      'Email is required',
+    ]);
+  });
+
+  it('should list, count and forget the messages', () => {
+    expect(errors.all()).toHaveLength(5);
+    expect(errors.count()).toBe(5);
+    expect(errors.keys()).toEqual([
+      'email',
+      'items.0.price',
+      'items.2.price',
+      'items.2.name',
+    ]);
+
+    errors.forget('items.*.price').forget('email', 'required');
+
+    expect(errors.toObject()).toEqual({
+      email: ['The email field must be an email'],
+      'items.2.name': ['The name field is required'],
+    });
+    expect(new ErrorBag().isEmpty()).toBe(true);
+  });
+
+  it('should mirror the data shape', () => {
+    errors.add('items', 'array', 'The items field must be an array');
+    const nested = errors.toNested();
+
+    expect(nested).toEqual({
+      email: [
+        'The email field is required',
+        'The email field must be an email',
+      ],
+      items: [
+        { price: ['The price must be a number'] },
+        undefined,
+        {
+          price: ['The price must be at least 1'],
+          name: ['The name field is required'],
+        },
+      ],
+    });
+    expect(Array.isArray(nested.items)).toBe(true);
+  });
+
+  it('should ignore the paths reaching the prototype', () => {
+    errors.add('__proto__.isAdmin', 'server', 'x');
+    const bag = new ErrorBag([
+      { path: 'constructor.prototype.isAdmin', rule: 'server', message: 'x' },
+    ]);
+
+    expect(errors.has('__proto__.isAdmin')).toBe(false);
+    expect(bag.isEmpty()).toBe(true);
+    expect(errors.toNested()).not.toHaveProperty('__proto__.isAdmin');
+  });
+});
@@ -0,0 +1,123 @@
+import { ErrorBag } from '../../../src/validation/utils/error-bag';
+import { ErrorSerializer } from '../../../src/validation/utils/error-serializer';
+
+describe('ErrorSerializer', () => {
+  const errors = new ErrorBag()
+    .add('email', 'email', 'The email field must be an email', undefined, 'bad')
+    .add('items.0.price', 'min', 'The price must be at least 1', 1, 0)
+    .add('password', 'minlength', 'The password is too short', 8, 'abc');
+
+  it('should serialize to a Problem Details object', () => {
+    const problem = errors.toProblemDetails({ instance: '/users' });
+
+    expect(problem).toMatchObject({
+      type: 'about:blank',
+      title: 'The given data was invalid',
+      status: 422,
+      instance: '/users',
+    });
+    expect(problem.errors[1]).toEqual({
+      pointer: '#/items/0/price',
+      detail: 'The price must be at least 1',
+      path: 'items.0.price',
+      rule: 'min',
+      params: 1,
+      value: 0,
+    });
+  });
+
+  it('should serialize to a JSON:API document', () => {
+    expect(errors.toJsonApi().errors[0]).toEqual({
+      status: '422',
+      code: 'email',
+      title: 'The given data was invalid',
+      detail: 'The email field must be an email',
+      source: { pointer: '/data/attributes/email' },
+      meta: { path: 'email', rule: 'email', value: 'bad' },
+    });
+  });
+
+  it('should redact the rejected values', () => {
+    const all = errors.toJsonApi({ redact: true }).errors;
+    const some = errors.toProblemDetails({
+      redact: ['password', 'items.*.price'],
+    }).errors;
+
+    expect(all.every((error) => !('value' in error.meta))).toBe(true);
+    expect(some.map((error) => 'value' in error)).toEqual([true, false, false]);
+  });
+
+  it('should escape the JSON pointers', () => {
+    const problem = new ErrorBag()
+      .add('links.a/b~c', 'url', 'Invalid url')
+      .toProblemDetails();
+
+    expect(problem.errors[0].pointer).toBe('#/links/a~1b~0c');
+    expect(ErrorBag.fromResponse(problem).keys()).toEqual(['links.a/b~c']);
+  });
+
+  it('should read back the serialized errors', () => {
+    expect(ErrorBag.fromResponse(errors.toProblemDetails()).toObject()).toEqual(
+      errors.toObject(),
+    );
+    expect(ErrorBag.fromResponse(errors.toJsonApi()).toObject()).toEqual(
+      errors.toObject(),
+    );
+  });
+
+  it('should ignore the pointers reaching the prototype', () => {
+    const serializer = new ErrorSerializer();
+
+    expect(
+      serializer.parse({
+        errors: [
+          { pointer: '#/__proto__/x', detail: 'Polluted' },
+          {
+            source: { pointer: '/constructor/prototype/x' },
+            detail: 'Polluted',
+          },
+          { pointer: '#/name', detail: 'Name is taken' },
+        ],
+      }),
+    ).toEqual([{ path: 'name', rule: 'server', message: 'Name is taken' }]);
+    expect(
+      serializer.parse(JSON.parse('{"errors":{"__proto__.x":"Polluted"}}')),
+    ).toEqual([]);
+    expect(
+      ErrorBag.fromResponse({
+        errors: [{ pointer: '/__proto__/x', detail: 'x' }],
+      }).toNested(),
+    ).toEqual({});
+    expect(({} as Record<string, unknown>).x).toBeUndefined();
+  });
+
+  it('should read the errors of other servers', () => {
+    const serializer = new ErrorSerializer({ pointerPrefix: '/data' });
+
+    expect(
+      serializer.parse({
+        errors: [
+          { source: { pointer: '/data/name' }, detail: 'Name is taken' },
+          { source: { pointer: '/data/name' }, detail: 'Name is rude' },
+          { detail: 'Something went wrong' },
+        ],
+      }),
+    ).toEqual([
+      { path: 'name', rule: 'server', message: 'Name is taken' },
+      { path: 'name', rule: 'server', message: 'Name is rude' },
+    ]);
+    expect(
+      serializer.parse({
+        errors: {
+          email: ['Email is taken', 'Email is banned'],
+          age: 'Too young',
+        },
+      }),
+    ).toEqual([
+      { path: 'email', rule: 'server', message: 'Email is taken' },
+      { path: 'email', rule: 'server1', message: 'Email is banned' },
+      { path: 'age', rule: 'server', message: 'Too young' },
+    ]);
+    expect(serializer.parse('Internal Server Error')).toEqual([]);
+  });
+});
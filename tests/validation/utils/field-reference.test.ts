@@ -0,0 +1,80 @@
+import { FieldReference } from '../../../src/validation/utils/field-reference';
+
+describe('FieldReference', () => {
+  const context = {
+    data: {
+      password: 'secret',
+      price: { min: 10, max: 20 },
+      items: [{ price: 5 }, { price: 8 }],
+    },
+    path: 'items.1.discount',
+    attribute: (path: string) => (path === 'password' ? 'Password' : path),
+  };
+
+  describe('hasUnresolved', () => {
+    it('should find the references to empty or missing fields', () => {
+      expect(new FieldReference('@password', context).hasUnresolved()).toBe(
+        false,
+      );
+      expect(
+        new FieldReference('@price.avg', {
+          ...context,
+          hasField: (path: string) => path === 'price.avg',
+        }).hasUnresolved(),
+      ).toBe(true);
+      expect(
+        new FieldReference('@price.min,@name', {
+          ...context,
+          data: { ...context.data, name: '' },
+        }).hasUnresolved(),
+      ).toBe(true);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should keep the type of a single referenced value', () => {
+      expect(new FieldReference('@price.min', context).resolve()).toBe(10);
+    });
+
+    it('should resolve each referenced parameter', () => {
+      expect(
+        new FieldReference('@price.min,@price.max', context).resolve(),
+      ).toBe('10,20');
+    });
+
+    it('should replace the wildcards with the indexes of the current path', () => {
+      expect(new FieldReference('@items.*.price', context).resolve()).toBe(8);
+    });
+
+    it('should keep the literal parameters', () => {
+      expect(new FieldReference('password', context).resolve()).toBe(
+        'password',
+      );
+      expect(new FieldReference('@', context).resolve()).toBe('@');
+      expect(new FieldReference('@gmail.com', context).resolve()).toBe(
+        '@gmail.com',
+      );
+      expect(new FieldReference('@price.avg', context).hasUnresolved()).toBe(
+        false,
+      );
+    });
+
+    it('should not resolve anything without a context', () => {
+      expect(new FieldReference('@password').resolve()).toBe('@password');
+    });
+  });
+
+  describe('describe', () => {
+    it('should use the attribute name of the referenced field', () => {
+      expect(new FieldReference('@password', context).describe()).toBe(
+        'Password',
+      );
+    });
+
+    it('should fallback to the resolved path', () => {
+      expect(new FieldReference('@items.*.price', context).describe()).toBe(
+        'items.1.price',
+      );
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { Scheduler } from '../../../src/validation/utils/scheduler';
+
+describe('Scheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run the callback at once without delay', () => {
+    const callback = jest.fn();
+    new Scheduler().schedule(callback);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only run the last call once the debounce elapsed', () => {
+    const scheduler = new Scheduler(200);
+    const first = jest.fn();
+    const last = jest.fn();
+
+    scheduler.schedule(first);
+    jest.advanceTimersByTime(150);
+    scheduler.schedule(last);
+    jest.advanceTimersByTime(150);
+    expect(last).not.toHaveBeenCalled();
+    expect(scheduler.pending).toBe(true);
+
+    jest.advanceTimersByTime(50);
+    expect(first).not.toHaveBeenCalled();
+    expect(last).toHaveBeenCalledTimes(1);
+    expect(scheduler.pending).toBe(false);
+  });
+
+  it('should run at most once per throttle period', () => {
+    const scheduler = new Scheduler(0, 100);
+    const callback = jest.fn();
+
+    scheduler.schedule(callback);
+    scheduler.schedule(callback);
+    scheduler.schedule(callback);
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(100);
+    expect(callback).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(100);
+    expect(callback).toHaveBeenCalledTimes(2);
+  });
+
+  it('should flush and cancel the waiting call', () => {
+    const scheduler = new Scheduler(100);
+    const callback = jest.fn();
+
+    scheduler.schedule(callback);
+    scheduler.flush();
+    expect(callback).toHaveBeenCalledTimes(1);
+
+    scheduler.schedule(callback);
+    scheduler.cancel();
+    jest.advanceTimersByTime(100);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
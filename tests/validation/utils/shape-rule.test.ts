@@ -0,0 +1,107 @@
+import { Local } from '../../../src/locale/local';
+import { Bag, InputValidator } from '../../../src/validation';
+import { makeShapeRule } from '../../../src/validation/utils/shape-rule';
+
+describe('makeShapeRule', () => {
+  const bag = new Bag(new Local());
+  const shape = {
+    street: 'required',
+    city: { rules: 'required|minlength:2', attribute: 'City' },
+    geo: { rules: 'object', shape: { lat: 'number', lng: 'number' } },
+  };
+
+  it('should validate each key with its rules', () => {
+    const rule = makeShapeRule(bag, shape);
+
+    expect(
+      rule({ street: 'Main St', city: 'Paris', geo: { lat: 1, lng: 2 } })
+        .passes,
+    ).toBe(true);
+    const state = rule({ street: '', city: 'P', geo: { lat: 'x', lng: 2 } });
+    expect(state.passes).toBe(false);
+    expect(Object.keys(state.items ?? {})).toEqual([
+      'street',
+      'city',
+      'geo',
+      'geo.lat',
+    ]);
+    expect(state.items?.city).toEqual({
+      rule: 'minlength',
+      params: '2',
+      message: 'The minimum number of allowed characters is: 2',
+      value: 'P',
+    });
+    expect(state.items?.geo.message).toBe(
+      'Some keys of this field are invalid',
+    );
+    expect(state.items?.['geo.lat'].rule).toBe('number');
+  });
+
+  it('should keep, strip or reject the unknown keys', () => {
+    const value = { street: 'Main St', city: 'Paris', extra: true };
+
+    expect(makeShapeRule(bag, shape)(value).value).toEqual(value);
+    expect(makeShapeRule(bag, shape, 'strip')(value).value).toEqual({
+      street: 'Main St',
+      city: 'Paris',
+    });
+    const state = makeShapeRule(bag, shape, 'strict')(value);
+    expect(state.passes).toBe(false);
+    expect(state.items?.extra).toEqual({
+      rule: 'unknownKey',
+      message: 'The extra key is not allowed',
+      value: true,
+    });
+  });
+
+  it('should report the inherited keys in strict mode', () => {
+    const state = makeShapeRule(
+      bag,
+      shape,
+      'strict',
+    )({
+      street: 'Main St',
+      city: 'Paris',
+      constructor: 'x',
+      toString: 'y',
+    });
+
+    expect(state.passes).toBe(false);
+    expect(state.items?.constructor).toMatchObject({ rule: 'unknownKey' });
+    expect(state.items?.toString).toMatchObject({ rule: 'unknownKey' });
+  });
+
+  it('should validate the object parsed from a JSON string', () => {
+    const rule = makeShapeRule(bag, { street: 'required' }, 'strip');
+    const state = rule('{"street":"Main St","extra":1}');
+
+    expect(state.passes).toBe(true);
+    expect(state.value).toEqual({ street: 'Main St' });
+    expect(rule('{not json').passes).toBe(false);
+    expect(rule('[1, 2]').passes).toBe(false);
+  });
+});
+
+describe('InputValidator shape', () => {
+  const bag = new Bag(new Local());
+
+  it('should validate the shape after the rules of the input', () => {
+    const input = new InputValidator(bag, {
+      name: 'payload',
+      rules: 'required|json',
+      shape: { id: 'required|integer' },
+      unknownKeys: 'strip',
+    });
+
+    expect(input.setValue('{"id": 3, "debug": true}').valid()).toBe(true);
+    expect(input.getValidatedValue()).toEqual({ id: 3 });
+    expect(input.setValue('{"debug": true}').valid()).toBe(false);
+    expect(input.getErrors()).toEqual({
+      shape: 'Some keys of this field are invalid',
+    });
+    expect(input.setValue('nope').valid()).toBe(false);
+    expect(input.getErrors().json).toBe(
+      'This field must be a valid JSON string',
+    );
+  });
+});
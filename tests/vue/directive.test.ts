@@ -0,0 +1,154 @@
+import {
+  createApp,
+  defineComponent,
+  h,
+  nextTick,
+  ref,
+  withDirectives,
+} from 'vue';
+import { Jevalide } from '../../src/validation/jevalide';
+import { directiveInput, vJevalide } from '../../src/vue';
+
+describe('vJevalide', () => {
+  let container: HTMLElement;
+  const rules = ref<string>('required|email');
+  const shown = ref(true);
+
+  const mount = () => {
+    const app = createApp(
+      defineComponent({
+        setup() {
+          return () =>
+            h('form', [
+              shown.value
+                ? withDirectives(h('input', { name: 'email', value: 'john' }), [
+                    [vJevalide, rules.value],
+                  ])
+                : null,
+              h('div', { 'data-tr-feedback': 'email' }),
+            ]);
+        },
+      }),
+    );
+    app.mount(container);
+    return app;
+  };
+
+  const input = () =>
+    container.querySelector('[name="email"]') as HTMLInputElement;
+
+  const type = (value: string) => {
+    input().value = value;
+    input().dispatchEvent(new Event('input', { bubbles: true }));
+  };
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    Jevalide.init({ local: 'en' });
+    rules.value = 'required|email';
+    shown.value = true;
+  });
+
+  afterEach(() => {
+    container.remove();
+  });
+
+  it('should create an input validator for the element', () => {
+    const app = mount();
+    const validator = directiveInput(input());
+
+    expect(validator?.getName()).toBe('email');
+    expect(validator?.getValue()).toBe('john');
+    expect(validator?.isPristine()).toBe(true);
+    app.unmount();
+  });
+
+  it('should validate and render the element while typing', () => {
+    const app = mount();
+    type('john@');
+
+    expect(input().classList.contains('is-invalid')).toBe(true);
+    expect(input().getAttribute('aria-invalid')).toBe('true');
+    expect(container.querySelector('[data-tr-feedback]')?.textContent).toBe(
+      Object.values(directiveInput(input())?.getErrors() ?? {})[0],
+    );
+
+    type('john@example.com');
+    expect(input().classList.contains('is-valid')).toBe(true);
+    expect(container.querySelector('[data-tr-feedback]')?.textContent).toBe('');
+    app.unmount();
+  });
+
+  it('should translate the message when the locale changes', () => {
+    const app = mount();
+    type('');
+    expect(container.querySelector('[data-tr-feedback]')?.textContent).toBe(
+      'This field is required',
+    );
+
+    Jevalide.getInstance().setLocale('fr');
+    expect(container.querySelector('[data-tr-feedback]')?.textContent).toBe(
+      'Ce champ est obligatoire',
+    );
+    app.unmount();
+  });
+
+  it('should render the result of the asynchronous rules once settled', async () => {
+    Jevalide.getInstance().rule(
+      'unused',
+      async (value) => ({ passes: value !== 'jane@example.com', value }),
+      'This email is already used',
+    );
+    rules.value = 'required|email|unused';
+    const app = mount();
+    const feedback = container.querySelector('[data-tr-feedback]');
+
+    type('jane@example.com');
+    expect(directiveInput(input())?.pending).toBe(true);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(input().classList.contains('is-invalid')).toBe(true);
+    expect(feedback?.textContent).toBe('This email is already used');
+
+    type('john@example.com');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(input().classList.contains('is-valid')).toBe(true);
+    expect(feedback?.textContent).toBe('');
+    app.unmount();
+  });
+
+  it('should replace the validator when the rules change', async () => {
+    const app = mount();
+    const first = directiveInput(input());
+
+    rules.value = 'required|minlength:10';
+    await nextTick();
+    expect(directiveInput(input())).not.toBe(first);
+    expect(first?.hasRules()).toBe(false);
+    expect(directiveInput(input())?.hasRule('minlength')).toBe(true);
+    app.unmount();
+  });
+
+  it('should destroy the validator when the element is removed', async () => {
+    const app = mount();
+    const element = input();
+    const validator = directiveInput(element);
+
+    shown.value = false;
+    await nextTick();
+    expect(directiveInput(element)).toBeNull();
+    expect(validator?.hasRules()).toBe(false);
+    app.unmount();
+  });
+
+  it('should forget the validator in the Jevalide inputs once unmounted', async () => {
+    const inputs = (
+      Jevalide.getInstance() as unknown as { inputs: Map<string, unknown> }
+    ).inputs;
+    const app = mount();
+    expect(inputs.get('email')).toBe(directiveInput(input()));
+
+    app.unmount();
+    expect(inputs.has('email')).toBe(false);
+  });
+});
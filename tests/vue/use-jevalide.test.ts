@@ -0,0 +1,127 @@
+import { createApp, defineComponent, h, nextTick } from 'vue';
+import { DeepPartial } from '../../src/contracts';
+import { Jevalide } from '../../src/validation/jevalide';
+import { useJevalide, UseJevalide } from '../../src/vue';
+
+type Data = { email: string; tags: string[] };
+
+describe('useJevalide', () => {
+  let container: HTMLElement;
+  let state: UseJevalide<Data, DeepPartial<Data>>;
+
+  const mount = (config?: object) => {
+    const app = createApp(
+      defineComponent({
+        setup() {
+          state = useJevalide<Data>(
+            { email: 'required|email', 'tags.*': 'required|minlength:2' },
+            { email: 'john', tags: ['ab'] },
+            config,
+          );
+          return () => h('p', { id: 'error' }, state.errors.value.email ?? '');
+        },
+      }),
+    );
+    app.mount(container);
+    return app;
+  };
+
+  // Wait for the watchers and the asynchronous validation
+  const flush = async () => {
+    await nextTick();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await nextTick();
+  };
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    Jevalide.init({ local: 'en' });
+  });
+
+  it('should validate the changed values', async () => {
+    const app = mount();
+    expect(state.values.email).toBe('john');
+
+    state.values.email = 'john@';
+    await flush();
+    expect(state.form.getData()).toMatchObject({ email: 'john@' });
+    expect(state.isDirty.value).toBe(true);
+    expect(container.querySelector('#error')?.textContent).toBe(
+      state.form.errors.first('email'),
+    );
+
+    state.values.tags?.push('c');
+    await flush();
+    expect(Object.keys(state.errors.value)).toEqual(['email', 'tags.1']);
+    app.unmount();
+  });
+
+  it('should only show the errors of the touched inputs', async () => {
+    const app = mount({ touchedOnly: true });
+    state.values.email = 'john@';
+    await flush();
+    expect(state.errors.value).toEqual({});
+
+    state.blur('email');
+    await flush();
+    expect(state.touched.value).toEqual({ email: true });
+    expect(state.errors.value.email).toBeTruthy();
+    app.unmount();
+  });
+
+  it('should submit the validated data', async () => {
+    const app = mount();
+    const onValid = jest.fn();
+    const onInvalid = jest.fn();
+
+    state.values.email = '';
+    await flush();
+    await state.handleSubmit(onValid, onInvalid)();
+    expect(onInvalid).toHaveBeenCalled();
+
+    state.values.email = 'john@example.com';
+    await flush();
+    await state.handleSubmit(onValid)();
+    expect(onValid).toHaveBeenCalledWith(
+      { email: 'john@example.com', tags: ['ab'] },
+      state.form,
+    );
+    app.unmount();
+  });
+
+  it('should restore the values on reset', async () => {
+    const app = mount();
+    state.values.email = 'jane';
+    await flush();
+
+    state.reset();
+    await flush();
+    expect(state.values.email).toBe('john');
+    expect(state.isDirty.value).toBe(false);
+    expect(state.errors.value).toEqual({});
+    app.unmount();
+  });
+
+  it('should translate the messages when the locale changes', async () => {
+    const app = mount();
+    state.values.email = '';
+    await flush();
+    expect(state.errors.value.email).toBe('This field is required');
+
+    Jevalide.getInstance().setLocale('fr');
+    await flush();
+    expect(state.locale.value).toBe('fr');
+    expect(state.errors.value.email).toBe('Ce champ est obligatoire');
+    app.unmount();
+  });
+
+  it('should destroy the form on unmount', async () => {
+    const app = mount();
+    const form = state.form;
+    app.unmount();
+
+    expect(form.all()).toEqual([]);
+    // The locale callback was removed
+    expect(() => Jevalide.getInstance().setLocale('fr')).not.toThrow();
+  });
+});
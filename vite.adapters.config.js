@@ -0,0 +1,32 @@
+import { resolve } from 'path';
+import { defineConfig } from 'vite';
+
+// The framework adapters import the core from the jevalide package, instead of bundling a copy of it
+const core = resolve(__dirname, 'src/index.ts');
+
+export default defineConfig({
+  mode: 'production',
+  build: {
+    target: 'ES6',
+    minify: true,
+    emptyOutDir: false,
+    lib: {
+      entry: {
+        react: './src/react/index.ts',
+        vue: './src/vue/index.ts',
+      },
+      formats: ['es', 'cjs'],
+      fileName: (format, name) => `${name}.${format === 'es' ? 'mjs' : 'js'}`,
+    },
+    rollupOptions: {
+      external: (id) => ['react', 'vue'].includes(id) || id === core,
+      makeAbsoluteExternalsRelative: false,
+      output: {
+        paths: { [core]: 'jevalide' },
+      },
+    },
+  },
+  resolve: {
+    extensions: ['.ts', '.js'],
+  },
+});
@@ -13,6 +13,6 @@ export default defineConfig({
     },
   },
   resolve: {
-    extensions: ['.ts'],
+    extensions: ['.ts', '.js'],
   },
 });